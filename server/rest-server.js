@@ -0,0 +1,83 @@
+// Minimal stand-in for the REST storage backend (src/lib/repositories/restRepository.ts),
+// for local development and testing. Keeps every document in memory (restarting it
+// clears all boards).
+//
+//   npm run rest-server              # listens on http://localhost:8788/api
+//   REST_PORT=9000 npm run rest-server
+//
+// Point the app at it with VITE_TASK_REPOSITORY=rest VITE_TASK_API_URL=http://localhost:8788/api.
+import { createServer } from 'node:http';
+
+const port = Number(process.env.REST_PORT) || 8788;
+
+const BASE_PATH = '/api';
+const RESOURCES = ['tasks', 'swimlanes', 'activity', 'settings'];
+
+// Document key ("boards", "tasks", "boards/<id>/tasks", ...) -> JSON text as last saved
+const documents = new Map();
+
+// The document a path names, or null: /boards, /<resource> for the default board,
+// /boards/<boardId>/<resource> for the others
+const documentKey = (path) => {
+  let parts;
+  try {
+    parts = path.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    return null;
+  }
+  if (parts.length === 1 && (parts[0] === 'boards' || RESOURCES.includes(parts[0]))) return parts[0];
+  if (parts.length === 3 && parts[0] === 'boards' && RESOURCES.includes(parts[2])) return `boards/${parts[1]}/${parts[2]}`;
+  return null;
+};
+
+const readBody = (request) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => resolve(Buffer.concat(chunks).toString()));
+    request.on('error', reject);
+  });
+
+const send = (response, status, body) => {
+  response.writeHead(status, {
+    // The app runs on the Vite dev server, a different origin
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Accept',
+    ...(body !== undefined && { 'Content-Type': 'application/json' }),
+  });
+  response.end(body);
+};
+
+const server = createServer(async (request, response) => {
+  const { pathname } = new URL(request.url, 'http://localhost');
+  if (request.method === 'OPTIONS') return send(response, 204);
+
+  const key = pathname.startsWith(`${BASE_PATH}/`) ? documentKey(pathname.slice(BASE_PATH.length)) : null;
+  if (key === null) return send(response, 404, JSON.stringify({ error: `No resource at ${pathname}` }));
+
+  switch (request.method) {
+    case 'GET': {
+      // Nothing saved yet: the app starts from its defaults
+      if (!documents.has(key)) return send(response, 404, JSON.stringify({ error: `Nothing saved at ${pathname}` }));
+      return send(response, 200, documents.get(key));
+    }
+    case 'PUT': {
+      let body;
+      try {
+        body = await readBody(request);
+        JSON.parse(body);
+      } catch {
+        return send(response, 400, JSON.stringify({ error: 'Body must be JSON' }));
+      }
+      documents.set(key, body);
+      return send(response, 204);
+    }
+    default:
+      return send(response, 405, JSON.stringify({ error: `${request.method} is not supported` }));
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Board REST server listening on http://localhost:${port}${BASE_PATH}`);
+});
@@ -0,0 +1,90 @@
+// Minimal stand-in for the board sync server, for local development and testing.
+// Keeps every board's operation log in memory (restarting it clears all boards).
+//
+//   npm run sync-server              # listens on ws://localhost:8787
+//   SYNC_PORT=9000 npm run sync-server
+//
+// Point the app at it with VITE_SYNC_URL=ws://localhost:8787.
+import { WebSocketServer } from 'ws';
+
+const port = Number(process.env.SYNC_PORT) || 8787;
+
+// boardId -> { ops: [{ seq, op }], opIds: Map<opId, seq>, clients: Set<socket> }
+const boards = new Map();
+
+const getBoard = (boardId) => {
+  if (!boards.has(boardId)) {
+    boards.set(boardId, { ops: [], opIds: new Map(), clients: new Set() });
+  }
+  return boards.get(boardId);
+};
+
+const send = (socket, message) => {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const broadcastPresence = (board) => {
+  const peers = [...board.clients].map(client => client.presence);
+  board.clients.forEach(client => send(client, { type: 'presence', peers }));
+};
+
+const server = new WebSocketServer({ port });
+
+server.on('connection', (socket) => {
+  let board = null;
+
+  socket.on('message', (data) => {
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      return;
+    }
+
+    switch (message.type) {
+      case 'hello': {
+        board = getBoard(String(message.boardId));
+        board.clients.add(socket);
+        socket.presence = { clientId: message.clientId, user: message.user || 'Anonymous', taskId: null, activity: null };
+        // Current position first, then everything the client missed
+        send(socket, { type: 'welcome', seq: board.ops.length });
+        board.ops
+          .filter(entry => entry.seq > (Number(message.since) || 0))
+          .forEach(entry => send(socket, { type: 'op', op: entry.op, seq: entry.seq }));
+        broadcastPresence(board);
+        break;
+      }
+      case 'op': {
+        if (!board || !message.op?.id) return;
+        // Re-sent after a reconnect: acknowledge again but don't apply twice
+        const knownSeq = board.opIds.get(message.op.id);
+        if (knownSeq !== undefined) {
+          send(socket, { type: 'ack', opId: message.op.id, seq: knownSeq });
+          return;
+        }
+        const seq = board.ops.length + 1;
+        board.ops.push({ seq, op: message.op });
+        board.opIds.set(message.op.id, seq);
+        send(socket, { type: 'ack', opId: message.op.id, seq });
+        board.clients.forEach(client => {
+          if (client !== socket) send(client, { type: 'op', op: message.op, seq });
+        });
+        break;
+      }
+      case 'presence': {
+        if (!board) return;
+        socket.presence = { ...socket.presence, taskId: message.taskId ?? null, activity: message.activity ?? null };
+        broadcastPresence(board);
+        break;
+      }
+    }
+  });
+
+  socket.on('close', () => {
+    if (!board) return;
+    board.clients.delete(socket);
+    broadcastPresence(board);
+  });
+});
+
+console.log(`Board sync server listening on ws://localhost:${port}`);
@@ -1,28 +1,37 @@
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
-import { Layout } from './components/Layout';
 import { BoardPage } from './pages/BoardPage';
 import { TasksPage } from './pages/TasksPage';
 import SettingsPage from './pages/SettingsPage';
-import { TaskProvider } from './context/TaskContext';
+import { BoardRedirect, BoardRoute } from './components/BoardRoute';
+import { BoardProvider } from './context/BoardContext';
 import { ThemeProvider } from './context/ThemeContext';
+import { UserProvider } from './context/UserContext';
 import './App.css';
 
 // Changed to explicit default export
 export default function App() {
   return (
     <ThemeProvider>
-      <TaskProvider>
-        <Router>
-          <Routes>
-            <Route path="/" element={<Layout />}>
-              <Route index element={<BoardPage />} />
-              <Route path="tasks" element={<TasksPage />} />
-              <Route path="settings" element={<SettingsPage />} />
+      <UserProvider>
+        {/* Storage backend is chosen once at startup (see VITE_TASK_REPOSITORY) */}
+        <BoardProvider>
+          <Router>
+            <Routes>
+              <Route path="/boards/:boardId" element={<BoardRoute />}>
+                <Route index element={<BoardPage />} />
+                <Route path="task/:taskId" element={<BoardPage />} />
+                <Route path="tasks" element={<TasksPage />} />
+                <Route path="settings" element={<SettingsPage />} />
+              </Route>
+              <Route path="/" element={<BoardRedirect />} />
+              <Route path="/task/:taskId" element={<BoardRedirect />} />
+              <Route path="/tasks" element={<BoardRedirect path="/tasks" />} />
+              <Route path="/settings" element={<BoardRedirect path="/settings" />} />
               <Route path="*" element={<Navigate to="/" replace />} />
-            </Route>
-          </Routes>
-        </Router>
-      </TaskProvider>
+            </Routes>
+          </Router>
+        </BoardProvider>
+      </UserProvider>
     </ThemeProvider>
   );
-}
\ No newline at end of file
+}
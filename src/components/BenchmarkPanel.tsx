@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Gauge, RefreshCw } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useBoards } from '../context/BoardContext';
+import { toPersistedTasks } from '../lib/boardSchema';
+import { LatencyStats, clearLatencyStats, generateLargeBoard, readLatencyStats } from '../lib/benchmark';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+
+const TASK_COUNTS = [1000, 5000, 10000];
+
+const formatMs = (value: number) => `${value.toFixed(1)} ms`;
+
+// Development-only tools: generate a large board and read the render and drag timings recorded on it
+export function BenchmarkPanel() {
+  const { createBoardWithData } = useBoards();
+  const navigate = useNavigate();
+  const [taskCount, setTaskCount] = useState(String(TASK_COUNTS[1]));
+  const [isCreating, setIsCreating] = useState(false);
+  const [stats, setStats] = useState<LatencyStats[]>(readLatencyStats);
+
+  const handleCreate = async () => {
+    const count = Number(taskCount);
+    const { tasks, tasksByStatus, swimLanes } = generateLargeBoard({ taskCount: count });
+    setIsCreating(true);
+    try {
+      const board = await createBoardWithData(`Benchmark (${count.toLocaleString()} tasks)`, {
+        tasks: toPersistedTasks(tasks, tasksByStatus),
+        swimLanes,
+      });
+      navigate(`/boards/${board.id}`);
+    } catch (error) {
+      console.error('Failed to create the benchmark board', error);
+      toast.error('Could not save the benchmark board (storage may be full)');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Select value={taskCount} onValueChange={setTaskCount}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TASK_COUNTS.map(count => (
+              <SelectItem key={count} value={String(count)}>{count.toLocaleString()} tasks</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={handleCreate} disabled={isCreating}>
+          <Gauge className="h-4 w-4 mr-2" />
+          Create benchmark board
+        </Button>
+      </div>
+
+      <div className="rounded-lg border border-slate-200 dark:border-slate-700">
+        <div className="flex items-center justify-between px-3 py-2">
+          <span className="text-sm font-medium">Recorded timings</span>
+          <div className="flex gap-1">
+            <Button variant="ghost" size="sm" onClick={() => setStats(readLatencyStats())}>
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Refresh
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                clearLatencyStats();
+                setStats([]);
+              }}
+            >
+              Clear
+            </Button>
+          </div>
+        </div>
+        {stats.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Measure</TableHead>
+                <TableHead className="text-right">Count</TableHead>
+                <TableHead className="text-right">Average</TableHead>
+                <TableHead className="text-right">p95</TableHead>
+                <TableHead className="text-right">Max</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {stats.map(stat => (
+                <TableRow key={stat.name}>
+                  <TableCell>{stat.name}</TableCell>
+                  <TableCell className="text-right">{stat.count}</TableCell>
+                  <TableCell className="text-right">{formatMs(stat.average)}</TableCell>
+                  <TableCell className="text-right">{formatMs(stat.p95)}</TableCell>
+                  <TableCell className="text-right">{formatMs(stat.max)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="px-3 pb-3 text-sm text-slate-500 dark:text-slate-300">
+            Nothing recorded yet. Open a board, drag a few cards or move them with [ and ], then come back and refresh.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { useEffect } from 'react';
+import { Navigate, useParams } from 'react-router-dom';
+import { TaskProvider } from '../context/TaskContext';
+import { useBoards } from '../context/BoardContext';
+import { DEFAULT_BOARD_ID } from '../types/task';
+import { Layout } from './Layout';
+
+// Mounts the board named in the URL. Keying the provider on the board id gives
+// each board its own state and undo history when switching.
+export function BoardRoute() {
+  const { boardId = DEFAULT_BOARD_ID } = useParams();
+  const { getBoard, getRepository, activeBoards, setLastBoardId } = useBoards();
+  const board = getBoard(boardId);
+
+  useEffect(() => {
+    if (board) setLastBoardId(board.id);
+  }, [board, setLastBoardId]);
+
+  if (!board) {
+    const fallback = activeBoards[0]?.id ?? DEFAULT_BOARD_ID;
+    return fallback === boardId ? null : <Navigate to={`/boards/${fallback}`} replace />;
+  }
+
+  return (
+    <TaskProvider key={board.id} repository={getRepository(board.id)} syncChannel={`kanban-board:${board.id}`} boardId={board.id}>
+      <Layout />
+    </TaskProvider>
+  );
+}
+
+interface BoardRedirectProps {
+  // Page within the board, e.g. '/tasks'
+  path?: string;
+}
+
+// Sends board-less URLs (/, and the pre-boards /tasks, /settings and
+// /task/:taskId links) to the matching page of a board
+export function BoardRedirect({ path = '' }: BoardRedirectProps) {
+  const { taskId } = useParams();
+  const { lastBoardId, getBoard } = useBoards();
+
+  // Task links from before boards existed always point at the original board
+  if (taskId) {
+    return <Navigate to={`/boards/${DEFAULT_BOARD_ID}/task/${taskId}`} replace />;
+  }
+  const boardId = getBoard(lastBoardId) ? lastBoardId : DEFAULT_BOARD_ID;
+  return <Navigate to={`/boards/${boardId}${path}`} replace />;
+}
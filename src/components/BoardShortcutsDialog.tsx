@@ -0,0 +1,38 @@
+import { BOARD_SHORTCUTS } from '../hooks/use-board-shortcuts';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+
+interface BoardShortcutsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Cheat sheet for the board's keyboard shortcuts, opened with "?"
+export function BoardShortcutsDialog({ open, onOpenChange }: BoardShortcutsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Keyboard Shortcuts</DialogTitle>
+          <DialogDescription>Focus a card with Tab or the arrow keys, then act on it.</DialogDescription>
+        </DialogHeader>
+        <dl className="divide-y text-sm dark:divide-slate-700">
+          {BOARD_SHORTCUTS.map(shortcut => (
+            <div key={shortcut.description} className="flex items-center justify-between gap-4 py-2">
+              <dt className="text-slate-600 dark:text-slate-300">{shortcut.description}</dt>
+              <dd className="flex shrink-0 gap-1">
+                {shortcut.keys.map(key => (
+                  <kbd
+                    key={key}
+                    className="min-w-6 rounded border border-slate-300 bg-slate-50 px-1.5 py-0.5 text-center font-mono text-xs dark:border-slate-600 dark:bg-slate-800"
+                  >
+                    {key}
+                  </kbd>
+                ))}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,192 @@
+import { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Archive, ArchiveRestore, Check, ChevronsUpDown, Copy, Edit2, KanbanSquare, Plus } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useBoards } from '../context/BoardContext';
+import { DEFAULT_BOARD_ID } from '../types/task';
+import { cn } from '../lib/utils';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+
+type NameDialogMode = 'create' | 'rename' | 'duplicate';
+
+const dialogTitles: Record<NameDialogMode, string> = {
+  create: 'New Board',
+  rename: 'Rename Board',
+  duplicate: 'Duplicate Board',
+};
+
+interface BoardSwitcherProps {
+  // Sidebar is collapsed to icons only
+  collapsed?: boolean;
+}
+
+export function BoardSwitcher({ collapsed = false }: BoardSwitcherProps) {
+  const { boardId = DEFAULT_BOARD_ID } = useParams();
+  const navigate = useNavigate();
+  const { getBoard, activeBoards, archivedBoards, createBoard, renameBoard, archiveBoard, restoreBoard, duplicateBoard } = useBoards();
+  const [dialogMode, setDialogMode] = useState<NameDialogMode | null>(null);
+  const [nameValue, setNameValue] = useState('');
+  const currentBoard = getBoard(boardId);
+
+  const openDialog = (mode: NameDialogMode) => {
+    setNameValue(
+      mode === 'rename' ? currentBoard?.name || '' : mode === 'duplicate' ? `${currentBoard?.name} (copy)` : ''
+    );
+    setDialogMode(mode);
+  };
+
+  const handleSubmit = async () => {
+    const name = nameValue.trim();
+    if (!name || !dialogMode) return;
+
+    if (dialogMode === 'create') {
+      const board = createBoard(name);
+      navigate(`/boards/${board.id}`);
+    } else if (dialogMode === 'rename') {
+      renameBoard(boardId, name);
+    } else {
+      try {
+        const board = await duplicateBoard(boardId, name);
+        navigate(`/boards/${board.id}`);
+        toast.success(`Created "${board.name}"`);
+      } catch (error) {
+        console.error('Failed to duplicate board', error);
+        toast.error('Could not duplicate this board');
+        return;
+      }
+    }
+    setDialogMode(null);
+  };
+
+  const handleArchive = () => {
+    const nextBoard = activeBoards.find(board => board.id !== boardId);
+    if (!nextBoard) return;
+    archiveBoard(boardId);
+    navigate(`/boards/${nextBoard.id}`);
+    toast.success(`Archived "${currentBoard?.name}"`);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            className="w-full flex items-center px-3 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-left text-white"
+            title={currentBoard?.name}
+          >
+            <KanbanSquare className="h-5 w-5 mr-3 flex-shrink-0" />
+            <span className={cn(
+              "flex-1 truncate text-sm font-medium transition-opacity duration-200",
+              collapsed && "opacity-0 w-0"
+            )}>
+              {currentBoard?.name || 'Select board'}
+            </span>
+            {!collapsed && <ChevronsUpDown className="h-4 w-4 flex-shrink-0 opacity-70" />}
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-60">
+          <DropdownMenuLabel>Boards</DropdownMenuLabel>
+          {activeBoards.map(board => (
+            <DropdownMenuItem key={board.id} onSelect={() => navigate(`/boards/${board.id}`)}>
+              <Check className={cn("h-4 w-4 mr-2", board.id === boardId ? "opacity-100" : "opacity-0")} />
+              <span className="truncate">{board.name}</span>
+            </DropdownMenuItem>
+          ))}
+          {archivedBoards.length > 0 && (
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <Archive className="h-4 w-4 mr-2" />
+                Archived ({archivedBoards.length})
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent className="w-56">
+                {archivedBoards.map(board => (
+                  <DropdownMenuItem key={board.id} onSelect={() => navigate(`/boards/${board.id}`)}>
+                    <span className="flex-1 truncate">{board.name}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0 ml-2"
+                      title="Restore"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        restoreBoard(board.id);
+                      }}
+                    >
+                      <ArchiveRestore className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => openDialog('create')}>
+            <Plus className="h-4 w-4 mr-2" /> New board
+          </DropdownMenuItem>
+          {currentBoard && (
+            <>
+              <DropdownMenuItem onSelect={() => openDialog('rename')}>
+                <Edit2 className="h-4 w-4 mr-2" /> Rename board
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => openDialog('duplicate')}>
+                <Copy className="h-4 w-4 mr-2" /> Duplicate board
+              </DropdownMenuItem>
+              {!currentBoard.archived && (
+                <DropdownMenuItem
+                  onSelect={handleArchive}
+                  disabled={activeBoards.length <= 1}
+                  title={activeBoards.length <= 1 ? 'At least one board must stay active' : undefined}
+                >
+                  <Archive className="h-4 w-4 mr-2" /> Archive board
+                </DropdownMenuItem>
+              )}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={dialogMode !== null} onOpenChange={(open) => !open && setDialogMode(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{dialogMode && dialogTitles[dialogMode]}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Board Name</label>
+              <Input
+                value={nameValue}
+                onChange={e => setNameValue(e.target.value)}
+                placeholder="Enter board name"
+                autoFocus
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleSubmit();
+                }}
+              />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setDialogMode(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSubmit} disabled={!nameValue.trim()}>
+                {dialogMode === 'create' ? 'Create Board' : dialogMode === 'duplicate' ? 'Duplicate' : 'Save Changes'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
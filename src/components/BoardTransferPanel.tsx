@@ -0,0 +1,201 @@
+import { useRef, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { AlertTriangle, Download, Upload } from 'lucide-react';
+import { useTaskContext } from '../context/TaskContext';
+import { useBoards } from '../context/BoardContext';
+import { BoardDataError } from '../lib/boardSchema';
+import {
+  BoardExport,
+  ImportConflictStrategy,
+  ImportMode,
+  applyImport,
+  createBoardExport,
+  parseBoardExport,
+  summarizeImport,
+} from '../lib/boardTransfer';
+import { downloadFile } from '../lib/download';
+import { showUndoToast } from '../lib/undoToast';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { RadioGroup, RadioGroupItem } from './ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from './ui/alert-dialog';
+
+interface ImportError {
+  message: string;
+  issues: string[];
+}
+
+export function BoardTransferPanel() {
+  const { tasks, tasksByStatus, swimLanes, replaceBoardData, getLatestUndo } = useTaskContext();
+  const { boardId } = useParams();
+  const { getBoard } = useBoards();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; data: BoardExport } | null>(null);
+  const [importError, setImportError] = useState<ImportError | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [conflicts, setConflicts] = useState<ImportConflictStrategy>('skip');
+  const [isReplaceDialogOpen, setIsReplaceDialogOpen] = useState(false);
+
+  const current = { tasks, tasksByStatus, swimLanes };
+  const boardName = boardId ? getBoard(boardId)?.name : undefined;
+  const summary = pendingImport ? summarizeImport(current, pendingImport.data) : null;
+
+  const handleExport = () => {
+    const data = createBoardExport(current, boardName);
+    const slug = (boardName || 'board').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    downloadFile(`${slug || 'board'}-${new Date().toISOString().slice(0, 10)}.json`, JSON.stringify(data, null, 2));
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so picking the same file again still fires a change
+    event.target.value = '';
+    if (!file) return;
+
+    setPendingImport(null);
+    setImportError(null);
+    try {
+      const text = await file.text();
+      let raw: unknown;
+      try {
+        raw = JSON.parse(text);
+      } catch {
+        throw new BoardDataError('The file is not valid JSON', text);
+      }
+      setPendingImport({ fileName: file.name, data: parseBoardExport(raw) });
+    } catch (error) {
+      setImportError({
+        message: error instanceof Error ? error.message : String(error),
+        issues: error instanceof BoardDataError ? error.issues : [],
+      });
+    }
+  };
+
+  const applyPendingImport = () => {
+    if (!pendingImport) return;
+    replaceBoardData(applyImport(current, pendingImport.data, mode, conflicts), 'Import board');
+    setPendingImport(null);
+    setIsReplaceDialogOpen(false);
+    showUndoToast(mode === 'replace' ? 'Board replaced from file' : 'Tasks imported', getLatestUndo());
+  };
+
+  const handleImport = () => {
+    if (mode === 'replace') {
+      setIsReplaceDialogOpen(true);
+    } else {
+      applyPendingImport();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" onClick={handleExport}>
+          <Download className="h-4 w-4 mr-2" />
+          Export board
+        </Button>
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+
+      {importError && (
+        <div className="rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-800 dark:border-red-800 dark:bg-red-950/50 dark:text-red-200">
+          <p className="flex items-center font-medium">
+            <AlertTriangle className="h-4 w-4 mr-2" /> {importError.message}
+          </p>
+          {importError.issues.length > 0 && (
+            <ul className="mt-2 max-h-40 overflow-y-auto text-xs font-mono space-y-1">
+              {importError.issues.map((issue, index) => (
+                <li key={index}>{issue}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {pendingImport && summary && (
+        <div className="rounded-md border p-4 space-y-4 dark:border-slate-700">
+          <div>
+            <p className="font-medium">{pendingImport.data.boardName || pendingImport.fileName}</p>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              {summary.taskCount} {summary.taskCount === 1 ? 'task' : 'tasks'} in {summary.laneCount}{' '}
+              {summary.laneCount === 1 ? 'lane' : 'lanes'}
+              {pendingImport.data.exportedAt && `, exported ${new Date(pendingImport.data.exportedAt).toLocaleString()}`}
+            </p>
+          </div>
+
+          <RadioGroup value={mode} onValueChange={(value) => setMode(value as ImportMode)} className="space-y-1">
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="merge" id="import-merge" />
+              <Label htmlFor="import-merge">Merge into this board</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="replace" id="import-replace" />
+              <Label htmlFor="import-replace">Replace this board</Label>
+            </div>
+          </RadioGroup>
+
+          {mode === 'merge' && (
+            <div className="space-y-2 text-sm">
+              {summary.newLanes.length > 0 && (
+                <p>New lanes: {summary.newLanes.map(lane => lane.name).join(', ')}</p>
+              )}
+              {summary.conflictingTaskIds.length > 0 ? (
+                <>
+                  <p>
+                    {summary.conflictingTaskIds.length} imported {summary.conflictingTaskIds.length === 1 ? 'task has' : 'tasks have'} the
+                    same id as a task already on this board.
+                  </p>
+                  <Select value={conflicts} onValueChange={(value) => setConflicts(value as ImportConflictStrategy)}>
+                    <SelectTrigger className="max-w-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="skip">Keep the existing tasks</SelectItem>
+                      <SelectItem value="overwrite">Overwrite with the imported tasks</SelectItem>
+                      <SelectItem value="duplicate">Import them as new copies</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </>
+              ) : (
+                <p className="text-slate-500 dark:text-slate-400">No id conflicts with this board.</p>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => setPendingImport(null)}>Cancel</Button>
+            <Button onClick={handleImport}>Import</Button>
+          </div>
+        </div>
+      )}
+
+      <AlertDialog open={isReplaceDialogOpen} onOpenChange={setIsReplaceDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replace this board?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All tasks and swim lanes on this board will be replaced by the imported ones. You can undo this with Ctrl+Z.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={applyPendingImport} className="bg-red-600 text-white hover:bg-red-700">
+              Replace
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+import { useState } from 'react';
+import { ArrowRightLeft, Flag, Tag, Trash2, UserRound, X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useTaskContext } from '../context/TaskContext';
+import { Priority } from '../types/task';
+import { showUndoToast } from '../lib/undoToast';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+
+interface BulkActionsBarProps {
+  selectedIds: string[];
+  // Tasks the current filter shows, for "select all"
+  matchingCount: number;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+}
+
+const PRIORITY_OPTIONS: { value: Priority; label: string }[] = [
+  { value: 1, label: 'High' },
+  { value: 2, label: 'Medium' },
+  { value: 3, label: 'Low' },
+];
+
+const plural = (count: number) => `${count} task${count === 1 ? '' : 's'}`;
+
+// A text field with apply/clear buttons, used for assignee and label
+function TextActionPopover({
+  icon,
+  title,
+  placeholder,
+  suggestions,
+  applyLabel,
+  clearLabel,
+  onApply,
+  onClear,
+}: {
+  icon: React.ReactNode;
+  title: string;
+  placeholder: string;
+  suggestions: string[];
+  applyLabel: string;
+  clearLabel: string;
+  onApply: (value: string) => void;
+  onClear: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [value, setValue] = useState('');
+  const listId = `bulk-${title.toLowerCase()}-suggestions`;
+
+  const apply = () => {
+    if (!value.trim()) return;
+    onApply(value.trim());
+    setOpen(false);
+  };
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (next) setValue('');
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          {icon}
+          {title}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-64 space-y-2 p-3">
+        <Input
+          value={value}
+          onChange={e => setValue(e.target.value)}
+          placeholder={placeholder}
+          list={listId}
+          autoFocus
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') apply();
+          }}
+        />
+        <datalist id={listId}>
+          {suggestions.map(suggestion => (
+            <option key={suggestion} value={suggestion} />
+          ))}
+        </datalist>
+        <div className="flex justify-between gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              onClear();
+              setOpen(false);
+            }}
+          >
+            {clearLabel}
+          </Button>
+          <Button size="sm" onClick={apply} disabled={!value.trim()}>
+            {applyLabel}
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+// Actions for the tasks selected in the TasksPage table
+export function BulkActionsBar({ selectedIds, matchingCount, onSelectAll, onClearSelection }: BulkActionsBarProps) {
+  const { tasks, swimLanes, bulkUpdateTasks, bulkMoveTasks, bulkDeleteTasks, getLatestUndo } = useTaskContext();
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const count = selectedIds.length;
+
+  const distinct = (values: (string | undefined)[]) =>
+    [...new Set(values.filter((value): value is string => !!value))].sort((a, b) => a.localeCompare(b));
+  const knownAssignees = distinct(Object.values(tasks).map(task => task.assignee));
+  const knownLabels = distinct(Object.values(tasks).map(task => task.label));
+
+  const handleMove = (laneId: string) => {
+    const lane = swimLanes.find(l => l.id === laneId);
+    const { moved, blocked, overWipLimit } = bulkMoveTasks(selectedIds, laneId);
+    if (moved.length > 0) showUndoToast(`Moved ${plural(moved.length)} to ${lane?.name}`, getLatestUndo());
+    if (blocked.length > 0) toast.error(`${plural(blocked.length)} skipped: still blocked by open tasks`);
+    if (overWipLimit.length > 0) toast.error(`${plural(overWipLimit.length)} skipped: ${lane?.name} is at its WIP limit`);
+    if (moved.length === 0 && blocked.length === 0 && overWipLimit.length === 0) {
+      toast(`Selected tasks are already in ${lane?.name}`);
+    }
+  };
+
+  const handleUpdate = (updates: Parameters<typeof bulkUpdateTasks>[1], label: string, message: string) => {
+    bulkUpdateTasks(selectedIds, updates, label);
+    showUndoToast(message, getLatestUndo());
+  };
+
+  const handleDelete = () => {
+    bulkDeleteTasks(selectedIds);
+    setIsDeleteOpen(false);
+    onClearSelection();
+    showUndoToast(`Deleted ${plural(count)}`, getLatestUndo());
+  };
+
+  return (
+    <div className="mb-3 flex flex-wrap items-center gap-2 rounded-lg border border-indigo-200 bg-indigo-50 px-3 py-2 dark:border-indigo-900 dark:bg-indigo-950/40">
+      <span className="text-sm font-medium text-indigo-900 dark:text-indigo-100">{plural(count)} selected</span>
+      {count < matchingCount ? (
+        <Button variant="link" size="sm" className="mr-2 px-1" onClick={onSelectAll}>
+          Select all {matchingCount} matching
+        </Button>
+      ) : (
+        <span className="mr-2" />
+      )}
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm">
+            <ArrowRightLeft className="h-4 w-4 mr-1" />
+            Move to
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          {swimLanes.map(lane => (
+            <DropdownMenuItem key={lane.id} onSelect={() => handleMove(lane.id)}>
+              {lane.name}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm">
+            <Flag className="h-4 w-4 mr-1" />
+            Priority
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          {PRIORITY_OPTIONS.map(option => (
+            <DropdownMenuItem
+              key={option.value}
+              onSelect={() =>
+                handleUpdate({ priority: option.value }, 'Set priority', `Set ${plural(count)} to ${option.label} priority`)
+              }
+            >
+              {option.label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <TextActionPopover
+        icon={<UserRound className="h-4 w-4 mr-1" />}
+        title="Assignee"
+        placeholder="Assignee name"
+        suggestions={knownAssignees}
+        applyLabel="Assign"
+        clearLabel="Unassign"
+        onApply={name => handleUpdate({ assignee: name }, 'Set assignee', `Assigned ${plural(count)} to ${name}`)}
+        onClear={() => handleUpdate({ assignee: '' }, 'Clear assignee', `Unassigned ${plural(count)}`)}
+      />
+
+      <TextActionPopover
+        icon={<Tag className="h-4 w-4 mr-1" />}
+        title="Label"
+        placeholder="Label"
+        suggestions={knownLabels}
+        applyLabel="Add label"
+        clearLabel="Remove label"
+        onApply={label => handleUpdate({ label }, 'Set label', `Labelled ${plural(count)} "${label}"`)}
+        onClear={() => handleUpdate({ label: '' }, 'Remove label', `Removed the label from ${plural(count)}`)}
+      />
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="text-red-600 hover:text-red-700 dark:text-red-400"
+        onClick={() => setIsDeleteOpen(true)}
+      >
+        <Trash2 className="h-4 w-4 mr-1" />
+        Delete
+      </Button>
+
+      <Button variant="ghost" size="sm" className="ml-auto" onClick={onClearSelection}>
+        <X className="h-4 w-4 mr-1" />
+        Clear selection
+      </Button>
+
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {plural(count)}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The selected tasks will be removed from the board. You can undo this right after.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction className="bg-red-600 hover:bg-red-700" onClick={handleDelete}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import { DndContext, closestCenter, KeyboardSensor, PointerSensor, useSensor, useSensors, DragEndEvent } from '@dnd-kit/core';
+import { SortableContext, verticalListSortingStrategy, useSortable, arrayMove, sortableKeyboardCoordinates } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { GripVertical, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useTaskContext } from '../context/TaskContext';
+import { ChecklistItem, Task } from '../types/task';
+import { cn } from '../lib/utils';
+import { describeMoveRefusal } from '../lib/movePolicy';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import { Input } from './ui/input';
+import { Progress } from './ui/progress';
+
+interface SortableChecklistItemProps {
+  item: ChecklistItem;
+  onToggle: (item: ChecklistItem) => void;
+  onRename: (item: ChecklistItem, text: string) => void;
+  onDelete: (item: ChecklistItem) => void;
+}
+
+function SortableChecklistItem({ item, onToggle, onRename, onDelete }: SortableChecklistItemProps) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: item.id });
+  const [text, setText] = useState(item.text);
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.6 : 1,
+  };
+
+  const commitRename = () => {
+    const trimmed = text.trim();
+    if (!trimmed) {
+      setText(item.text);
+    } else if (trimmed !== item.text) {
+      onRename(item, trimmed);
+    }
+  };
+
+  return (
+    <li ref={setNodeRef} style={style} className="flex items-center gap-2 group">
+      <button
+        type="button"
+        className="cursor-grab text-slate-400 hover:text-slate-600"
+        {...attributes}
+        {...listeners}
+      >
+        <GripVertical size={14} />
+        <span className="sr-only">Reorder</span>
+      </button>
+      <Checkbox checked={item.done} onCheckedChange={() => onToggle(item)} />
+      <input
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={commitRename}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') e.currentTarget.blur();
+        }}
+        className={cn(
+          "flex-1 bg-transparent text-sm outline-none rounded px-1 focus:ring-1 focus:ring-ring",
+          item.done && "line-through text-slate-400"
+        )}
+      />
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 text-red-500 hover:text-red-700"
+        onClick={() => onDelete(item)}
+      >
+        <Trash2 size={12} />
+        <span className="sr-only">Delete item</span>
+      </Button>
+    </li>
+  );
+}
+
+interface ChecklistEditorProps {
+  task: Task;
+}
+
+export function ChecklistEditor({ task }: ChecklistEditorProps) {
+  const {
+    swimLanes,
+    addChecklistItem,
+    updateChecklistItem,
+    toggleChecklistItem,
+    reorderChecklistItems,
+    deleteChecklistItem,
+  } = useTaskContext();
+  const [newItemText, setNewItemText] = useState('');
+  const items = task.checklist || [];
+  const doneCount = items.filter(item => item.done).length;
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 4 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (!over || active.id === over.id) return;
+
+    const ids = items.map(item => item.id);
+    const oldIndex = ids.indexOf(active.id as string);
+    const newIndex = ids.indexOf(over.id as string);
+    if (oldIndex !== -1 && newIndex !== -1) {
+      reorderChecklistItems(task.id, arrayMove(ids, oldIndex, newIndex));
+    }
+  };
+
+  const handleToggle = (item: ChecklistItem) => {
+    const { movedTo, refused } = toggleChecklistItem(task.id, item.id);
+    if (movedTo) {
+      const laneName = swimLanes.find(lane => lane.id === movedTo)?.name || movedTo;
+      toast.success(`Checklist complete, moved to ${laneName}`);
+    } else if (refused) {
+      toast.error(`Checklist complete, but not moved: ${describeMoveRefusal(task, refused)}`);
+    }
+  };
+
+  const handleAdd = () => {
+    if (!newItemText.trim()) return;
+    addChecklistItem(task.id, newItemText.trim());
+    setNewItemText('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-slate-700 dark:text-slate-200">Checklist</h4>
+        {items.length > 0 && (
+          <span className="text-xs text-slate-500 dark:text-slate-400">{doneCount}/{items.length}</span>
+        )}
+      </div>
+      {items.length > 0 && <Progress value={(doneCount / items.length) * 100} className="h-1.5" />}
+
+      <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+        <SortableContext items={items.map(item => item.id)} strategy={verticalListSortingStrategy}>
+          <ul className="space-y-1">
+            {items.map(item => (
+              <SortableChecklistItem
+                // Remount when the text changes elsewhere (e.g. undo) so the input resets
+                key={`${item.id}:${item.text}`}
+                item={item}
+                onToggle={handleToggle}
+                onRename={(target, text) => updateChecklistItem(task.id, target.id, { text })}
+                onDelete={(target) => deleteChecklistItem(task.id, target.id)}
+              />
+            ))}
+          </ul>
+        </SortableContext>
+      </DndContext>
+
+      <div className="flex gap-2">
+        <Input
+          value={newItemText}
+          onChange={(e) => setNewItemText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAdd();
+          }}
+          placeholder="Add an item"
+          className="h-8"
+        />
+        <Button size="sm" variant="outline" onClick={handleAdd} disabled={!newItemText.trim()}>
+          <Plus className="h-4 w-4" />
+          <span className="sr-only">Add item</span>
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { Wifi, WifiOff } from 'lucide-react';
+import { useTaskContext } from '../context/TaskContext';
+import { cn } from '../lib/utils';
+
+// Sync server connection and who else is on the board; hidden when sync is off
+export function CollabStatus() {
+  const { collabStatus, collabPeers } = useTaskContext();
+  if (!collabStatus) return null;
+
+  const users = [...new Set(collabPeers.map(peer => peer.user))];
+  const label = {
+    connecting: 'Connecting…',
+    online: users.length > 0 ? `Live with ${users.join(', ')}` : 'Live',
+    offline: 'Offline, reconnecting',
+  }[collabStatus];
+
+  return (
+    <span
+      className={cn(
+        'flex items-center gap-1.5 rounded-full border px-2.5 py-1 text-xs',
+        collabStatus === 'online'
+          ? 'border-green-300 bg-green-50 text-green-700 dark:border-green-800 dark:bg-green-950/50 dark:text-green-400'
+          : 'border-slate-300 bg-slate-50 text-slate-600 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-400'
+      )}
+      title={collabStatus === 'offline' ? 'Changes are kept and sent when the connection is back' : undefined}
+    >
+      {collabStatus === 'offline' ? <WifiOff className="h-3 w-3" /> : <Wifi className="h-3 w-3" />}
+      {label}
+    </span>
+  );
+}
@@ -0,0 +1,292 @@
+import { useEffect, useState } from 'react';
+import { matchPath, useLocation, useNavigate } from 'react-router-dom';
+import { defaultFilter } from 'cmdk';
+import {
+  ArrowRight,
+  FileText,
+  KanbanSquare,
+  LayoutDashboard,
+  ListTodo,
+  Moon,
+  Plus,
+  Settings as SettingsIcon,
+  Sun,
+} from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useTaskContext } from '../context/TaskContext';
+import { useBoards } from '../context/BoardContext';
+import { useTheme } from '../context/ThemeContext';
+import { useBoardPath } from '../hooks/use-board-path';
+import { Task } from '../types/task';
+import { showUndoToast } from '../lib/undoToast';
+import { tokenize } from '../lib/search';
+import { TaskForm } from './TaskForm';
+import { HighlightedText } from './HighlightedText';
+import { Dialog, DialogContent, DialogTitle } from './ui/dialog';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from './ui/command';
+
+// Sub-pages that ask for more input before running
+type PalettePage = 'root' | 'add-lane';
+
+// Items match on their keywords (title, description, label...), never on their internal value
+const filterByKeywords = (value: string, search: string, keywords?: string[]) =>
+  defaultFilter(keywords && keywords.length > 0 ? keywords.join(' ') : value, search);
+
+const MAX_DESCRIPTION = 80;
+// Task results shown for a search, and recent tasks shown before typing
+const MAX_TASK_RESULTS = 20;
+const RECENT_TASKS = 5;
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Ctrl+K / Cmd+K palette: search tasks, jump to boards and pages, and run board actions. */
+export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
+  const { tasks, swimLanes, bulkMoveTasks, addSwimLane, searchTasks, getLatestUndo } = useTaskContext();
+  const { activeBoards } = useBoards();
+  const { theme, toggleTheme } = useTheme();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const boardPath = useBoardPath();
+  const [page, setPage] = useState<PalettePage>('root');
+  const [search, setSearch] = useState('');
+  // Card that had focus on the board when the palette opened
+  const [focusedTaskId, setFocusedTaskId] = useState<string | null>(null);
+  const [createLaneId, setCreateLaneId] = useState<string | null>(null);
+  const [wasOpen, setWasOpen] = useState(open);
+
+  // Every opening starts from the main list with an empty search
+  if (open !== wasOpen) {
+    setWasOpen(open);
+    if (open) {
+      setPage('root');
+      setSearch('');
+    }
+  }
+
+  const boardMatch = matchPath('/boards/:boardId/*', location.pathname);
+  const currentBoardId = boardMatch?.params.boardId;
+  const openTaskId = matchPath('/boards/:boardId/task/:taskId', location.pathname)?.params.taskId;
+  // "The selected task": the one open in the drawer, else the focused card
+  const targetTask: Task | undefined = tasks[openTaskId ?? ''] ?? tasks[focusedTaskId ?? ''];
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        const focused = (document.activeElement as HTMLElement | null)?.closest<HTMLElement>('[data-task-id]');
+        setFocusedTaskId(focused?.dataset.taskId ?? null);
+        onOpenChange(!open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [open, onOpenChange]);
+
+  // Close the palette, then run the command
+  const run = (command: () => void) => {
+    onOpenChange(false);
+    command();
+  };
+
+  const handleMove = (task: Task, laneId: string) => {
+    const lane = swimLanes.find(l => l.id === laneId);
+    // Same blocker and WIP policies as a bulk move
+    const { moved, blocked } = bulkMoveTasks([task.id], laneId);
+    if (moved.length > 0) {
+      showUndoToast(`Moved "${task.title}" to ${lane?.name}`, getLatestUndo());
+    } else if (blocked.length > 0) {
+      toast.error(`"${task.title}" is still blocked by open tasks`);
+    } else {
+      toast.error(`${lane?.name} is at its WIP limit of ${lane?.wipLimit}`);
+    }
+  };
+
+  const handleAddLane = () => {
+    const name = search.trim();
+    if (!name) return;
+    addSwimLane(name);
+    showUndoToast(`Added swim lane "${name}"`, getLatestUndo());
+    onOpenChange(false);
+  };
+
+  // Tasks come ranked from the search index; cmdk keeps that order through the item scores
+  const taskResults = search.trim()
+    ? searchTasks(search).slice(0, MAX_TASK_RESULTS)
+    : Object.values(tasks)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .slice(0, RECENT_TASKS)
+        .map(task => ({ taskId: task.id, score: 1 }));
+  const topScore = taskResults[0]?.score ?? 1;
+  const taskScores = new Map(taskResults.map(result => [`task:${result.taskId}`.toLowerCase(), result.score / topScore]));
+  const filter = (value: string, searchText: string, keywords?: string[]) =>
+    value.startsWith('task:') ? taskScores.get(value.toLowerCase()) ?? 0 : filterByKeywords(value, searchText, keywords);
+  const highlightWords = tokenize(search);
+
+  const pages = [
+    { path: '', label: 'Activity Board', icon: LayoutDashboard },
+    { path: '/tasks', label: 'User Tasks', icon: ListTodo },
+    { path: '/settings', label: 'Settings', icon: SettingsIcon },
+  ];
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="overflow-hidden p-0">
+          <DialogTitle className="sr-only">Command palette</DialogTitle>
+          <Command
+            filter={filter}
+            shouldFilter={page === 'root'}
+            className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]]:px-2 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2.5 [&_[cmdk-item]_svg]:h-4 [&_[cmdk-item]_svg]:w-4"
+          >
+            <CommandInput
+              value={search}
+              onValueChange={setSearch}
+              placeholder={page === 'add-lane' ? 'Name of the new swim lane' : 'Search tasks, boards and actions...'}
+              onKeyDown={(e) => {
+                // Backspace on an empty sub-page goes back to the main list
+                if (page !== 'root' && e.key === 'Backspace' && !search) {
+                  e.preventDefault();
+                  setPage('root');
+                }
+              }}
+            />
+            <CommandList>
+              {page === 'add-lane' ? (
+                <CommandGroup heading="Add swim lane">
+                  <CommandItem value="add-lane" onSelect={handleAddLane} disabled={!search.trim()}>
+                    <Plus className="mr-2" />
+                    {search.trim() ? `Add "${search.trim()}"` : 'Type a name for the lane'}
+                  </CommandItem>
+                </CommandGroup>
+              ) : (
+                <>
+                  <CommandEmpty>No results found.</CommandEmpty>
+
+                  {targetTask && (
+                    <CommandGroup heading={`"${targetTask.title}"`}>
+                      {swimLanes
+                        .filter(lane => lane.id !== targetTask.status)
+                        .map(lane => (
+                          <CommandItem
+                            key={lane.id}
+                            value={`move:${lane.id}`}
+                            keywords={[`Move selected task to ${lane.name}`]}
+                            onSelect={() => run(() => handleMove(targetTask, lane.id))}
+                          >
+                            <ArrowRight className="mr-2" />
+                            Move to {lane.name}
+                          </CommandItem>
+                        ))}
+                    </CommandGroup>
+                  )}
+
+                  <CommandGroup heading="Actions">
+                    {swimLanes.map(lane => (
+                      <CommandItem
+                        key={lane.id}
+                        value={`create:${lane.id}`}
+                        keywords={[`Create task in ${lane.name}`, 'new']}
+                        onSelect={() => run(() => setCreateLaneId(lane.id))}
+                      >
+                        <Plus className="mr-2" />
+                        Create task in {lane.name}
+                      </CommandItem>
+                    ))}
+                    <CommandItem
+                      value="add-lane"
+                      keywords={['Add swim lane', 'new column']}
+                      onSelect={() => {
+                        setSearch('');
+                        setPage('add-lane');
+                      }}
+                    >
+                      <Plus className="mr-2" />
+                      Add swim lane...
+                    </CommandItem>
+                    <CommandItem value="toggle-theme" keywords={['Toggle theme', 'dark light mode']} onSelect={() => run(toggleTheme)}>
+                      {theme === 'dark' ? <Sun className="mr-2" /> : <Moon className="mr-2" />}
+                      Toggle theme
+                      <CommandShortcut>{theme === 'dark' ? 'Light' : 'Dark'}</CommandShortcut>
+                    </CommandItem>
+                  </CommandGroup>
+
+                  <CommandGroup heading={search.trim() ? 'Tasks' : 'Recently updated'}>
+                    {taskResults.map(({ taskId }) => tasks[taskId]).filter(Boolean).map(task => (
+                      <CommandItem
+                        key={task.id}
+                        value={`task:${task.id}`}
+                        onSelect={() => run(() => navigate(boardPath(`/task/${task.id}`)))}
+                      >
+                        <FileText className="mr-2 shrink-0" />
+                        <div className="min-w-0">
+                          <p className="truncate">
+                            <HighlightedText text={task.title} words={highlightWords} />
+                          </p>
+                          {task.description && (
+                            <p className="truncate text-xs text-muted-foreground">
+                              {task.description.length > MAX_DESCRIPTION
+                                ? `${task.description.slice(0, MAX_DESCRIPTION)}...`
+                                : task.description}
+                            </p>
+                          )}
+                        </div>
+                        <CommandShortcut>{swimLanes.find(lane => lane.id === task.status)?.name}</CommandShortcut>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+
+                  <CommandGroup heading="Pages">
+                    {pages.map(({ path, label, icon: Icon }) => (
+                      <CommandItem
+                        key={label}
+                        value={`page:${path}`}
+                        keywords={[label, 'go to']}
+                        onSelect={() => run(() => navigate(boardPath(path)))}
+                      >
+                        <Icon className="mr-2" />
+                        {label}
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+
+                  <CommandGroup heading="Boards">
+                    {activeBoards
+                      .filter(board => board.id !== currentBoardId)
+                      .map(board => (
+                        <CommandItem
+                          key={board.id}
+                          value={`board:${board.id}`}
+                          keywords={[board.name, 'switch board']}
+                          onSelect={() => run(() => navigate(`/boards/${board.id}`))}
+                        >
+                          <KanbanSquare className="mr-2" />
+                          {board.name}
+                        </CommandItem>
+                      ))}
+                  </CommandGroup>
+                </>
+              )}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={createLaneId !== null} onOpenChange={(isOpen) => !isOpen && setCreateLaneId(null)}>
+        <DialogContent className="sm:max-w-[600px]">
+          {createLaneId && <TaskForm defaultStatus={createLaneId} onSuccess={() => setCreateLaneId(null)} />}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
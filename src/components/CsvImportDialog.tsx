@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import { AlertTriangle, CheckCircle2, Upload } from 'lucide-react';
+import { useTaskContext } from '../context/TaskContext';
+import { useUser } from '../context/UserContext';
+import { parseCsv } from '../lib/csv';
+import { CSV_IMPORT_FIELDS, CsvColumnMapping, CsvImportField, guessCsvMapping, validateCsvRows } from '../lib/taskCsv';
+import { showUndoToast } from '../lib/undoToast';
+import { toast } from 'react-hot-toast';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+
+// Select items can't have an empty value, so unmapped fields get a sentinel
+const NOT_MAPPED = 'none';
+
+interface CsvImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface ParsedFile {
+  name: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export function CsvImportDialog({ open, onOpenChange }: CsvImportDialogProps) {
+  const { swimLanes, addTask, runBatch, getLatestUndo } = useTaskContext();
+  const { currentUser } = useUser();
+  const [file, setFile] = useState<ParsedFile | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+
+  const results = file ? validateCsvRows(file.rows, mapping, swimLanes, { creator: currentUser }) : [];
+  const validRows = results.filter(result => result.task);
+  const invalidRows = results.filter(result => !result.task);
+
+  const reset = () => {
+    setFile(null);
+    setFileError(null);
+    setMapping({});
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = '';
+    if (!selected) return;
+
+    const [headers, ...rows] = parseCsv(await selected.text());
+    if (!headers || rows.length === 0) {
+      setFileError('The file has no data rows under a header row.');
+      return;
+    }
+    setFileError(null);
+    setFile({ name: selected.name, headers, rows });
+    setMapping(guessCsvMapping(headers));
+  };
+
+  const updateMapping = (field: CsvImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === NOT_MAPPED) {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = () => {
+    // One undo step for the whole file
+    let imported = 0;
+    runBatch('Import tasks from CSV', () => {
+      validRows.forEach(result => {
+        if (result.task && !addTask(result.task).refused) imported++;
+      });
+    });
+    if (imported > 0) showUndoToast(`Imported ${imported} ${imported === 1 ? 'task' : 'tasks'}`, getLatestUndo());
+    const refused = validRows.length - imported;
+    if (refused > 0) {
+      toast.error(`${refused} ${refused === 1 ? 'task was' : 'tasks were'} skipped: blocked or over a WIP limit`);
+    }
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import tasks from CSV</DialogTitle>
+          <DialogDescription>
+            The first row must hold column names. Status is matched against swim lane names.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!file ? (
+          <div className="space-y-3 py-4">
+            <label className="flex flex-col items-center justify-center gap-2 rounded-md border border-dashed p-8 cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800 dark:border-slate-600">
+              <Upload className="h-6 w-6 text-slate-400" />
+              <span className="text-sm text-slate-600 dark:text-slate-300">Choose a .csv file</span>
+              <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFileChange} />
+            </label>
+            {fileError && <p className="text-sm text-red-600">{fileError}</p>}
+          </div>
+        ) : (
+          <div className="space-y-6 py-2">
+            <div>
+              <h4 className="text-sm font-medium mb-2">Map columns from {file.name}</h4>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {CSV_IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div key={field} className="space-y-1">
+                    <label className="text-xs font-medium text-slate-600 dark:text-slate-300">
+                      {label}{required && ' *'}
+                    </label>
+                    <Select
+                      value={mapping[field] !== undefined ? String(mapping[field]) : NOT_MAPPED}
+                      onValueChange={(value) => updateMapping(field, value)}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_MAPPED}>Don't import</SelectItem>
+                        {file.headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {header || `Column ${index + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Dry run: nothing is created until the user confirms */}
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Summary</h4>
+              <p className="flex items-center text-sm text-green-700 dark:text-green-400">
+                <CheckCircle2 className="h-4 w-4 mr-2" />
+                {validRows.length} of {results.length} {results.length === 1 ? 'row' : 'rows'} will be imported
+              </p>
+              {invalidRows.length > 0 && (
+                <>
+                  <p className="flex items-center text-sm text-red-700 dark:text-red-400">
+                    <AlertTriangle className="h-4 w-4 mr-2" />
+                    {invalidRows.length} {invalidRows.length === 1 ? 'row has' : 'rows have'} errors and will be skipped
+                  </p>
+                  <ul className="max-h-40 overflow-y-auto rounded-md border bg-slate-50 dark:bg-slate-900 dark:border-slate-700 p-3 text-xs space-y-1">
+                    {invalidRows.map(result => (
+                      <li key={result.rowNumber}>
+                        <span className="font-medium">Row {result.rowNumber}:</span> {result.errors.join('; ')}
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+
+            <div className="flex justify-between">
+              <Button variant="ghost" onClick={reset}>Choose another file</Button>
+              <Button onClick={handleImport} disabled={validRows.length === 0}>
+                Import {validRows.length} {validRows.length === 1 ? 'task' : 'tasks'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
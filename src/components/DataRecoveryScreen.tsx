@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { AlertTriangle, Download, RefreshCw, RotateCcw } from 'lucide-react';
+import { BoardDataError } from '../lib/boardSchema';
+import { downloadFile } from '../lib/download';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from './ui/card';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from './ui/alert-dialog';
+
+interface DataRecoveryScreenProps {
+  error: Error;
+  onRetry: () => void;
+  onReset: () => void;
+}
+
+export function DataRecoveryScreen({ error, onRetry, onReset }: DataRecoveryScreenProps) {
+  const [isResetDialogOpen, setIsResetDialogOpen] = useState(false);
+  const issues = error instanceof BoardDataError ? error.issues : [];
+  const raw = error instanceof BoardDataError ? error.raw : undefined;
+
+  // Let the user keep a copy of the unreadable data before resetting
+  const handleDownload = () => {
+    const content = typeof raw === 'string' ? raw : JSON.stringify(raw, null, 2);
+    downloadFile(`kanban-board-backup-${new Date().toISOString().slice(0, 10)}.json`, content);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-slate-50 dark:bg-slate-900">
+      <Card className="w-full max-w-xl">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            Your board data could not be loaded
+          </CardTitle>
+          <CardDescription>{error.message}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-sm text-slate-600 dark:text-slate-300">
+            Nothing has been overwritten. Download a copy of the stored data before resetting
+            the board if you want to repair it by hand.
+          </p>
+          {issues.length > 0 && (
+            <ul className="max-h-48 overflow-y-auto rounded-md border bg-slate-100 dark:bg-slate-800 dark:border-slate-700 p-3 text-xs font-mono space-y-1">
+              {issues.map((issue, index) => (
+                <li key={index}>{issue}</li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+        <CardFooter className="flex flex-col sm:flex-row gap-2">
+          {raw !== undefined && (
+            <Button variant="outline" className="w-full sm:w-auto" onClick={handleDownload}>
+              <Download className="h-4 w-4 mr-2" />
+              Download data
+            </Button>
+          )}
+          <Button variant="outline" className="w-full sm:w-auto" onClick={onRetry}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Try again
+          </Button>
+          <Button
+            className="w-full sm:w-auto bg-red-600 text-white hover:bg-red-700"
+            onClick={() => setIsResetDialogOpen(true)}
+          >
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset board
+          </Button>
+        </CardFooter>
+      </Card>
+
+      <AlertDialog open={isResetDialogOpen} onOpenChange={setIsResetDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reset the board?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This replaces the stored tasks and swim lanes with an empty board.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={onReset} className="bg-red-600 text-white hover:bg-red-700">
+              Reset
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
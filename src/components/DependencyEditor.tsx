@@ -0,0 +1,120 @@
+import { Link2, X } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { toast } from 'react-hot-toast';
+import { useTaskContext } from '../context/TaskContext';
+import { Task } from '../types/task';
+import { getBlockedTasks, getBlockers, getDoneLaneIds, wouldCreateCycle } from '../lib/dependencies';
+import { cn } from '../lib/utils';
+import { useBoardPath } from '../hooks/use-board-path';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+
+interface DependencyListProps {
+  title: string;
+  linked: Task[];
+  candidates: { task: Task; createsCycle: boolean }[];
+  placeholder: string;
+  onAdd: (otherId: string) => void;
+  onRemove: (otherId: string) => void;
+}
+
+function DependencyList({ title, linked, candidates, placeholder, onAdd, onRemove }: DependencyListProps) {
+  const { swimLanes } = useTaskContext();
+  const boardPath = useBoardPath();
+  const doneLaneIds = getDoneLaneIds(swimLanes);
+  const laneName = (laneId: string) => swimLanes.find(lane => lane.id === laneId)?.name || laneId;
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium text-slate-700 dark:text-slate-200">{title}</h4>
+      {linked.length > 0 && (
+        <ul className="space-y-1">
+          {linked.map(other => (
+            <li key={other.id} className="flex items-center gap-2 text-sm group">
+              <Link
+                to={boardPath(`/task/${other.id}`)}
+                className={cn(
+                  "flex-1 truncate hover:underline",
+                  doneLaneIds.includes(other.status) && "line-through text-slate-400"
+                )}
+              >
+                {other.title}
+              </Link>
+              <Badge variant="outline" className="text-xs shrink-0">{laneName(other.status)}</Badge>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+                onClick={() => onRemove(other.id)}
+              >
+                <X size={12} />
+                <span className="sr-only">Remove link</span>
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {candidates.length > 0 && (
+        <Select value="" onValueChange={onAdd}>
+          <SelectTrigger className="h-8">
+            <SelectValue placeholder={placeholder} />
+          </SelectTrigger>
+          <SelectContent>
+            {candidates.map(({ task, createsCycle }) => (
+              <SelectItem key={task.id} value={task.id} disabled={createsCycle}>
+                {task.title}
+                {createsCycle && <span className="ml-1 text-xs text-slate-400">(would create a cycle)</span>}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
+
+interface DependencyEditorProps {
+  task: Task;
+}
+
+export function DependencyEditor({ task }: DependencyEditorProps) {
+  const { tasks, addDependency, removeDependency } = useTaskContext();
+  const blockers = getBlockers(task, tasks);
+  const blocked = getBlockedTasks(task.id, tasks);
+  const others = Object.values(tasks).filter(other => other.id !== task.id);
+
+  const link = (taskId: string, blockerId: string) => {
+    if (!addDependency(taskId, blockerId)) {
+      toast.error("Can't link these tasks: it would create a dependency cycle");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="flex items-center text-sm font-semibold text-slate-900 dark:text-slate-100">
+        <Link2 size={14} className="mr-1" /> Dependencies
+      </h3>
+      <DependencyList
+        title="Blocked by"
+        linked={blockers}
+        candidates={others
+          .filter(other => !task.blockedBy?.includes(other.id))
+          .map(other => ({ task: other, createsCycle: wouldCreateCycle(tasks, task.id, other.id) }))}
+        placeholder="Add a blocking task"
+        onAdd={blockerId => link(task.id, blockerId)}
+        onRemove={blockerId => removeDependency(task.id, blockerId)}
+      />
+      <DependencyList
+        title="Blocks"
+        linked={blocked}
+        candidates={others
+          .filter(other => !other.blockedBy?.includes(task.id))
+          .map(other => ({ task: other, createsCycle: wouldCreateCycle(tasks, other.id, task.id) }))}
+        placeholder="Add a task this one blocks"
+        onAdd={blockedId => link(blockedId, task.id)}
+        onRemove={blockedId => removeDependency(blockedId, task.id)}
+      />
+    </div>
+  );
+}
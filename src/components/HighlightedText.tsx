@@ -0,0 +1,24 @@
+import { highlightParts } from '../lib/search';
+
+interface HighlightedTextProps {
+  text: string;
+  // Tokenized search words; their prefixes are marked in the text
+  words?: string[];
+}
+
+export function HighlightedText({ text, words = [] }: HighlightedTextProps) {
+  if (words.length === 0) return <>{text}</>;
+  return (
+    <>
+      {highlightParts(text, words).map((part, index) =>
+        part.match ? (
+          <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-inherit dark:bg-yellow-500/40">
+            {part.text}
+          </mark>
+        ) : (
+          part.text
+        )
+      )}
+    </>
+  );
+}
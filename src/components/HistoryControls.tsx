@@ -0,0 +1,32 @@
+import { Redo2, Undo2 } from 'lucide-react';
+import { useTaskContext } from '../context/TaskContext';
+import { Button } from './ui/button';
+
+export function HistoryControls() {
+  const { canUndo, canRedo, undoLabel, redoLabel, undo, redo } = useTaskContext();
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        variant="outline"
+        size="icon"
+        disabled={!canUndo}
+        onClick={undo}
+        title={undoLabel ? `Undo ${undoLabel.toLowerCase()} (Ctrl+Z)` : 'Nothing to undo'}
+      >
+        <Undo2 className="h-4 w-4" />
+        <span className="sr-only">Undo</span>
+      </Button>
+      <Button
+        variant="outline"
+        size="icon"
+        disabled={!canRedo}
+        onClick={redo}
+        title={redoLabel ? `Redo ${redoLabel.toLowerCase()} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+      >
+        <Redo2 className="h-4 w-4" />
+        <span className="sr-only">Redo</span>
+      </Button>
+    </div>
+  );
+}
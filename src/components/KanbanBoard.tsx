@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { Profiler, ProfilerOnRenderCallback, useCallback, useEffect, useRef, useState } from 'react';
 import { 
   DndContext, 
   DragOverlay,
@@ -16,13 +16,72 @@ import {
   sortableKeyboardCoordinates
 } from '@dnd-kit/sortable';
 import confetti from 'canvas-confetti';
+import { toast } from 'react-hot-toast';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Keyboard } from 'lucide-react';
 import { TaskCard } from './TaskCard';
 import { KanbanColumn } from './KanbanColumn'; // KanbanColumn now uses useDroppable
 import { useTaskContext } from '../context/TaskContext';
+import { getDoneLaneIds, getOpenBlockers, isInProgressLane } from '../lib/dependencies';
+import { describeMoveRefusal } from '../lib/movePolicy';
+import { wouldExceedWipLimit } from '../lib/wipLimits';
+import { Task } from '../types/task';
+import { useBoardPath } from '../hooks/use-board-path';
+import { focusTaskCard, useBoardShortcuts } from '../hooks/use-board-shortcuts';
+import { BoardShortcutsDialog } from './BoardShortcutsDialog';
+import { TaskForm } from './TaskForm';
+import { Dialog, DialogContent } from './ui/dialog';
+import { measureUntilPaint, recordMeasure } from '../lib/benchmark';
 
-export function KanbanBoard() {
-  const { tasks, tasksByStatus, swimLanes, moveTask, reorderTasks } = useTaskContext();
+// Board render times show up as "kanban:board mount/update" measures (development builds only)
+const recordBoardRender: ProfilerOnRenderCallback = (_id, phase, actualDuration, _baseDuration, startTime) => {
+  recordMeasure(`board ${phase}`, startTime, actualDuration);
+};
+
+interface KanbanBoardProps {
+  // Only cards matching it are shown; lane counts and WIP limits still cover every task
+  filter?: (task: Task) => boolean;
+  // Free-text search words to mark on the cards
+  highlightWords?: string[];
+}
+
+export function KanbanBoard({ filter, highlightWords }: KanbanBoardProps) {
+  const { tasks, tasksByStatus, swimLanes, moveTask, checkMove, reorderTasks, bulkMoveTasks, setPresence } = useTaskContext();
   const [activeId, setActiveId] = useState<string | null>(null); // ID of the task being dragged
+  // Cards picked with shift/ctrl-click; dragging one of them drags them all
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // Every card in the current drag, in board order
+  const [dragGroup, setDragGroup] = useState<string[]>([]);
+  // Lane the "n" shortcut is creating a task in
+  const [createLaneId, setCreateLaneId] = useState<string | null>(null);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const navigate = useNavigate();
+  const location = useLocation();
+  const boardPath = useBoardPath();
+
+  // Deleted or filtered-out cards drop out of the selection
+  const selection = selectedIds.filter(id => tasks[id] && (!filter || filter(tasks[id])));
+
+  // Stable, so memoized cards don't re-render for it
+  const toggleSelect = useCallback((taskId: string) => {
+    setSelectedIds(prev => (prev.includes(taskId) ? prev.filter(id => id !== taskId) : [...prev, taskId]));
+  }, []);
+
+  // Opens the detail drawer, keeping the query string. Stable too: navigate and
+  // the location change with the URL, so they are read through a ref.
+  const openTaskRef = useRef<(taskId: string) => void>(() => undefined);
+  openTaskRef.current = taskId => navigate(boardPath(`/task/${taskId}`) + location.search);
+  const openTask = useCallback((taskId: string) => openTaskRef.current(taskId), []);
+
+  // Escape clears the selection
+  useEffect(() => {
+    if (selectedIds.length === 0) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setSelectedIds([]);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedIds.length]);
   // targetLane is now primarily for visual feedback in KanbanColumn via its own useDroppable
   // We might not need a separate targetLane state here anymore if isOver from useDroppable in column is sufficient.
   // For now, let's remove it from KanbanBoard state to simplify, as KanbanColumn handles its own isOver.
@@ -36,12 +95,104 @@ export function KanbanBoard() {
     }),
     useSensor(KeyboardSensor, {
       coordinateGetter: sortableKeyboardCoordinates,
+      // Enter opens the focused card, so only Space picks it up
+      keyboardCodes: { start: ['Space'], cancel: ['Escape'], end: ['Space', 'Enter'] },
     })
   );
 
   const handleDragStart = (event: DragStartEvent) => {
     const { active } = event;
-    setActiveId(active.id as string);
+    const id = active.id as string;
+    measureUntilPaint('drag start');
+    setActiveId(id);
+    setPresence(id, 'dragging');
+
+    if (selection.includes(id) && selection.length > 1) {
+      // Keep the cards' relative order: lanes left to right, then top to bottom
+      const boardOrder = swimLanes.flatMap(lane => tasksByStatus[lane.id] || []);
+      setDragGroup(boardOrder.filter(taskId => selection.includes(taskId)));
+    } else {
+      // Dragging a card outside the selection drags just that card
+      setDragGroup([id]);
+      setSelectedIds([]);
+    }
+  };
+
+  const handleDragCancel = () => {
+    setActiveId(null);
+    setDragGroup([]);
+    setPresence(null, null);
+  };
+
+  // Move one card to another lane, applying the blocker and WIP policies. Returns whether it moved.
+  const moveCardToLane = (task: Task, laneId: string) => {
+    const currentStatus = task.status;
+    const targetLane = swimLanes.find(lane => lane.id === laneId);
+    // Starting work on a task that is still waiting on others
+    const openBlockers = targetLane && isInProgressLane(targetLane)
+      ? getOpenBlockers(task, tasks, swimLanes)
+      : [];
+    const blockerTitles = openBlockers.map(blocker => `"${blocker.title}"`).join(', ');
+    const exceedsWipLimit = !!targetLane && wouldExceedWipLimit(targetLane, tasksByStatus);
+
+    // Hard stops first, so a refused move doesn't also show warnings
+    const refusal = checkMove(task.id, laneId);
+    if (refusal) {
+      toast.error(describeMoveRefusal(task, refusal));
+      return false;
+    }
+    if (openBlockers.length > 0) {
+      toast(`"${task.title}" is still blocked by ${blockerTitles}`, { icon: '⚠️' });
+    }
+    if (exceedsWipLimit && targetLane) {
+      toast(`${targetLane.name} is now over its WIP limit of ${targetLane.wipLimit}`, { icon: '⚠️' });
+    }
+
+    if (!moveTask(task.id, laneId)) {
+      return false;
+    }
+
+    const doneOrReleaseLaneIds = getDoneLaneIds(swimLanes);
+    if (!doneOrReleaseLaneIds.includes(currentStatus) && doneOrReleaseLaneIds.includes(laneId)) {
+      triggerConfetti();
+    }
+    return true;
+  };
+
+  // The lane a drop lands in: the column itself or the lane of the card under the pointer
+  const getDropLaneId = (overId: string) => {
+    if (swimLanes.some(lane => lane.id === overId)) return overId;
+    return tasks[overId]?.status ?? null;
+  };
+
+  const handleGroupDrop = (group: string[], overId: string) => {
+    if (group.includes(overId)) return;
+    const targetLaneId = getDropLaneId(overId);
+    const targetLane = swimLanes.find(lane => lane.id === targetLaneId);
+    if (!targetLane) return;
+
+    const doneLaneIds = getDoneLaneIds(swimLanes);
+    const { moved, blocked, overWipLimit } = bulkMoveTasks(group, targetLane.id, tasks[overId] ? overId : null);
+
+    if (blocked.length > 0) {
+      toast.error(`${blocked.length} blocked task${blocked.length === 1 ? '' : 's'} stayed where they were`);
+    }
+    if (overWipLimit.length > 0) {
+      toast.error(`${overWipLimit.length} task${overWipLimit.length === 1 ? '' : 's'} didn't fit in ${targetLane.name}'s WIP limit of ${targetLane.wipLimit}`);
+    }
+    const stillBlocked = isInProgressLane(targetLane)
+      ? moved.filter(id => getOpenBlockers(tasks[id], tasks, swimLanes).length > 0)
+      : [];
+    if (stillBlocked.length > 0) {
+      toast(`${stillBlocked.length} moved task${stillBlocked.length === 1 ? ' is' : 's are'} still blocked`, { icon: '⚠️' });
+    }
+    const laneCount = (tasksByStatus[targetLane.id] || []).length + moved.length;
+    if (moved.length > 0 && targetLane.wipLimit !== undefined && laneCount > targetLane.wipLimit) {
+      toast(`${targetLane.name} is now over its WIP limit of ${targetLane.wipLimit}`, { icon: '⚠️' });
+    }
+    if (moved.some(id => !doneLaneIds.includes(tasks[id].status)) && doneLaneIds.includes(targetLane.id)) {
+      triggerConfetti();
+    }
   };
 
   // handleDragOver can be simplified or even removed if visual feedback is solely handled by KanbanColumn's useDroppable.isOver
@@ -56,12 +207,21 @@ export function KanbanBoard() {
 
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
+    const group = dragGroup;
+    measureUntilPaint('drop');
     setActiveId(null); // Reset active task
+    setDragGroup([]);
+    setPresence(null, null);
 
     if (!over || !active.id) {
       return;
     }
 
+    if (group.length > 1) {
+      handleGroupDrop(group, over.id as string);
+      return;
+    }
+
     const activeId = active.id as string;
     const activeTask = tasks[activeId];
 
@@ -97,18 +257,7 @@ export function KanbanBoard() {
 
     // Scenario 1: Moving task to a DIFFERENT lane
     if (finalTargetLaneId !== currentStatus) {
-      console.log(`Moving task ${activeId} from ${currentStatus} to ${finalTargetLaneId}`);
-      moveTask(activeId, finalTargetLaneId);
-      
-      const doneOrReleaseLaneIds = swimLanes
-        .filter(lane => 
-          lane.name.toLowerCase().includes('done') || 
-          lane.name.toLowerCase().includes('complete') || 
-          lane.name.toLowerCase().includes('release'))
-        .map(lane => lane.id);
-      if (!doneOrReleaseLaneIds.includes(currentStatus) && doneOrReleaseLaneIds.includes(finalTargetLaneId)) {
-        triggerConfetti();
-      }
+      moveCardToLane(activeTask, finalTargetLaneId);
     } 
     // Scenario 2: Reordering task WITHIN the same lane
     // This implies finalTargetLaneId === currentStatus, and we dropped on another task in this lane.
@@ -126,6 +275,29 @@ export function KanbanBoard() {
     }
   };
 
+  useBoardShortcuts({
+    lanes: swimLanes.map(lane => ({
+      laneId: lane.id,
+      taskIds: (tasksByStatus[lane.id] || []).filter(id => tasks[id] && (!filter || filter(tasks[id]))),
+    })),
+    disabled: activeId !== null,
+    onOpen: openTask,
+    onEdit: taskId => navigate(boardPath(`/task/${taskId}`) + location.search, { state: { edit: true } }),
+    onMoveLane: (taskId, direction) => {
+      const task = tasks[taskId];
+      const laneIndex = swimLanes.findIndex(lane => lane.id === task?.status);
+      const targetLane = swimLanes[laneIndex + direction];
+      if (!task || !targetLane) return;
+      measureUntilPaint('keyboard move');
+      // The card remounts in its new column (at the end, scrolled into view if the lane is windowed);
+      // give focus back once it has
+      if (moveCardToLane(task, targetLane.id)) requestAnimationFrame(() => focusTaskCard(taskId));
+    },
+    onToggleSelect: toggleSelect,
+    onCreate: setCreateLaneId,
+    onShowHelp: () => setIsShortcutsOpen(true),
+  });
+
   const triggerConfetti = () => {
     const count = 200;
     const defaults = {
@@ -144,31 +316,86 @@ export function KanbanBoard() {
 
   return (
     <div className="h-full flex flex-col">
-      <div className="flex-1 overflow-x-auto">
-        <DndContext
-          sensors={sensors}
-          collisionDetection={rectIntersection} // Simplified collision detection
-          onDragStart={handleDragStart}
-          onDragOver={handleDragOver} // Kept for potential logging/future use
-          onDragEnd={handleDragEnd}
+      <div className="mb-3 flex min-h-5 items-center gap-3 px-2 text-sm text-slate-600 dark:text-slate-300">
+        {selection.length > 0 && (
+          <>
+            <span>
+              {selection.length} card{selection.length === 1 ? '' : 's'} selected. Drag one of them to move them all.
+            </span>
+            <button
+              type="button"
+              className="text-indigo-600 hover:underline dark:text-indigo-400"
+              onClick={() => setSelectedIds([])}
+            >
+              Clear (Esc)
+            </button>
+          </>
+        )}
+        <button
+          type="button"
+          className="ml-auto flex items-center text-xs text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200"
+          onClick={() => setIsShortcutsOpen(true)}
         >
-          <div className="flex gap-6 h-full min-h-[calc(100vh-180px)] pb-6 px-2">
-            {swimLanes.map((swimLane) => (
-              <KanbanColumn
-                key={swimLane.id}
-                laneId={swimLane.id}
-                taskIds={tasksByStatus[swimLane.id] || []}
-                // isOver prop is removed as KanbanColumn now handles its own isOver via useDroppable
-              />
-            ))}
-          </div>
-          <DragOverlay>
-            {activeId && tasks[activeId] ? (
-              <TaskCard task={tasks[activeId]} />
-            ) : null}
-          </DragOverlay>
-        </DndContext>
+          <Keyboard className="h-4 w-4 mr-1" />
+          Shortcuts (?)
+        </button>
+      </div>
+      <div className="flex-1 overflow-x-auto">
+        <Profiler id="board" onRender={recordBoardRender}>
+          <DndContext
+            sensors={sensors}
+            collisionDetection={rectIntersection} // Simplified collision detection
+            onDragStart={handleDragStart}
+            onDragOver={handleDragOver} // Kept for potential logging/future use
+            onDragEnd={handleDragEnd}
+            onDragCancel={handleDragCancel}
+          >
+            <div className="flex gap-6 h-full min-h-[calc(100vh-180px)] pb-6 px-2">
+              {swimLanes.map((swimLane) => (
+                <KanbanColumn
+                  key={swimLane.id}
+                  laneId={swimLane.id}
+                  taskIds={tasksByStatus[swimLane.id] || []}
+                  filter={filter}
+                  selectedIds={selection}
+                  draggingIds={dragGroup.filter(id => id !== activeId)}
+                  onOpen={openTask}
+                  onToggleSelect={toggleSelect}
+                  highlightWords={highlightWords}
+                  // isOver prop is removed as KanbanColumn now handles its own isOver via useDroppable
+                />
+              ))}
+            </div>
+            <DragOverlay>
+              {activeId && tasks[activeId] ? (
+                dragGroup.length > 1 ? (
+                  // A short stack of cards with the count on top
+                  <div className="relative">
+                    {dragGroup.length > 2 && (
+                      <div className="absolute inset-0 translate-x-2 translate-y-2 rounded-md border border-slate-200 bg-white shadow-sm dark:border-slate-700 dark:bg-slate-800" />
+                    )}
+                    <div className="absolute inset-0 translate-x-1 translate-y-1 rounded-md border border-slate-200 bg-white shadow-sm dark:border-slate-700 dark:bg-slate-800" />
+                    <div className="relative">
+                      <TaskCard taskId={activeId} />
+                    </div>
+                    <span className="absolute -right-2 -top-2 flex h-6 min-w-6 items-center justify-center rounded-full bg-indigo-600 px-1.5 text-xs font-semibold text-white shadow">
+                      {dragGroup.length}
+                    </span>
+                  </div>
+                ) : (
+                  <TaskCard taskId={activeId} />
+                )
+              ) : null}
+            </DragOverlay>
+          </DndContext>
+        </Profiler>
       </div>
+      <Dialog open={createLaneId !== null} onOpenChange={(open) => !open && setCreateLaneId(null)}>
+        <DialogContent className="sm:max-w-[600px]">
+          {createLaneId && <TaskForm defaultStatus={createLaneId} onSuccess={() => setCreateLaneId(null)} />}
+        </DialogContent>
+      </Dialog>
+      <BoardShortcutsDialog open={isShortcutsOpen} onOpenChange={setIsShortcutsOpen} />
     </div>
   );
 }
\ No newline at end of file
@@ -10,15 +10,33 @@ import { useTaskContext } from '../context/TaskContext';
 import { useTheme } from '../context/ThemeContext';
 import { Dialog, DialogContent, DialogTrigger } from './ui/dialog';
 import { TaskForm } from './TaskForm';
+import { isOverWipLimit } from '../lib/wipLimits';
+import { Task } from '../types/task';
+import { useVirtualList } from '../hooks/use-virtual-list';
+import { useTaskCardReveal } from '../hooks/use-board-shortcuts';
+
+// Rough height of a card before it has been measured, and the space-y-3 gap
+const ESTIMATED_CARD_HEIGHT = 120;
+const CARD_GAP = 12;
 
 interface KanbanColumnProps {
   laneId: string;
   taskIds: string[];
+  // Hides cards that don't match, e.g. the board query
+  filter?: (task: Task) => boolean;
+  // Multi-selection, owned by KanbanBoard
+  selectedIds?: string[];
+  // Selected cards travelling with the card being dragged
+  draggingIds?: string[];
+  onOpen?: (taskId: string) => void;
+  onToggleSelect?: (taskId: string) => void;
+  // Search words to mark on the cards
+  highlightWords?: string[];
   // isOver prop will now be determined by useDroppable
 }
 
-export function KanbanColumn({ laneId, taskIds }: KanbanColumnProps) {
-  const { tasks, swimLanes, updateSwimLane } = useTaskContext();
+export function KanbanColumn({ laneId, taskIds, filter, selectedIds = [], draggingIds = [], onOpen, onToggleSelect, highlightWords }: KanbanColumnProps) {
+  const { tasks, tasksByStatus, swimLanes, updateSwimLane } = useTaskContext();
   const { theme } = useTheme();
   const [isEditingTitle, setIsEditingTitle] = useState(false);
   const [titleValue, setTitleValue] = useState('');
@@ -27,8 +45,18 @@ export function KanbanColumn({ laneId, taskIds }: KanbanColumnProps) {
     id: laneId, // This ID must match what dnd-kit expects for the droppable
   });
   
+  const visibleTaskIds = filter ? taskIds.filter(taskId => tasks[taskId] && filter(tasks[taskId])) : taskIds;
+  // Long lanes only mount the cards near the scroll position. SortableContext still
+  // gets every id; the drag itself is drawn by KanbanBoard's DragOverlay, so the
+  // dragged card may scroll out and unmount.
+  const cardList = useVirtualList({ keys: visibleTaskIds, estimateSize: ESTIMATED_CARD_HEIGHT, gap: CARD_GAP });
+  // Keyboard focus can reach cards outside the window
+  useTaskCardReveal(cardList.scrollToKey);
+
   const swimLane = swimLanes.find(lane => lane.id === laneId);
   if (!swimLane) return null;
+  const isOverLimit = isOverWipLimit(swimLane, tasksByStatus);
+  const hiddenCount = taskIds.length - visibleTaskIds.length;
 
   const getColumnBackground = (color: string, isColumnOver: boolean) => {
     const isDark = theme === 'dark';
@@ -145,6 +173,7 @@ export function KanbanColumn({ laneId, taskIds }: KanbanColumnProps) {
       className={cn(
         "h-full flex flex-col min-w-[250px] md:min-w-[300px] shadow-md rounded-lg overflow-hidden",
         isOver && "shadow-lg ring-2 ring-offset-2 ring-indigo-500",
+        isOverLimit && !isOver && "ring-2 ring-red-500",
         theme === 'dark' ? "ring-offset-slate-900" : "ring-offset-white"
       )}
     >
@@ -180,9 +209,24 @@ export function KanbanColumn({ laneId, taskIds }: KanbanColumnProps) {
                   <Edit2 size={12} />
                 </Button>
               </div>
-              <p className="text-xs text-white/70">
-                {taskIds.length} {taskIds.length === 1 ? 'task' : 'tasks'}
-              </p>
+              {swimLane.wipLimit !== undefined ? (
+                <p
+                  className={cn(
+                    "text-xs w-fit",
+                    isOverLimit ? "bg-red-600 text-white font-semibold rounded px-1.5" : "text-white/70"
+                  )}
+                  title={isOverLimit ? 'Over the WIP limit' : 'WIP limit'}
+                >
+                  {taskIds.length}/{swimLane.wipLimit} tasks
+                </p>
+              ) : (
+                <p className="text-xs text-white/70">
+                  {taskIds.length} {taskIds.length === 1 ? 'task' : 'tasks'}
+                </p>
+              )}
+              {hiddenCount > 0 && (
+                <p className="text-xs text-white/70">{hiddenCount} hidden by filter</p>
+              )}
             </>
           )}
         </div>
@@ -194,7 +238,11 @@ export function KanbanColumn({ laneId, taskIds }: KanbanColumnProps) {
           getColumnBackground(swimLane.color, isOver)
         )}
       >
-        {taskIds.length === 0 ? (
+        {taskIds.length > 0 && visibleTaskIds.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+            No matching tasks
+          </div>
+        ) : taskIds.length === 0 ? (
           <>
             <div className={cn(
               "h-full flex items-center justify-center text-sm",
@@ -226,10 +274,24 @@ export function KanbanColumn({ laneId, taskIds }: KanbanColumnProps) {
             </div>
           </>
         ) : (
-          <SortableContext items={taskIds} strategy={verticalListSortingStrategy}>
-            <div className="h-full overflow-y-auto pr-1 space-y-3">
-              {taskIds.map((taskId) => (
-                <TaskCard key={taskId} task={tasks[taskId]} />
+          <SortableContext items={visibleTaskIds} strategy={verticalListSortingStrategy}>
+            <div
+              ref={cardList.scrollRef}
+              // A windowed lane needs a bounded height to scroll in; otherwise it grows to fit every card
+              className={cn('h-full overflow-y-auto pr-1 space-y-3', cardList.isVirtual && 'max-h-[75vh]')}
+              style={{ paddingTop: cardList.paddingBefore, paddingBottom: cardList.paddingAfter }}
+            >
+              {cardList.items.map(({ key: taskId }) => (
+                <div key={taskId} data-virtual-key={taskId} ref={cardList.measureRef}>
+                  <TaskCard
+                    taskId={taskId}
+                    selected={selectedIds.includes(taskId)}
+                    dimmed={draggingIds.includes(taskId)}
+                    onOpen={onOpen}
+                    onToggleSelect={onToggleSelect}
+                    highlightWords={highlightWords}
+                  />
+                </div>
               ))}
             </div>
           </SortableContext>
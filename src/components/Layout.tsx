@@ -1,16 +1,22 @@
 import { Outlet, useLocation, Link } from 'react-router-dom';
-import { LayoutDashboard, ListTodo, Settings as SettingsIcon } from 'lucide-react';
+import { LayoutDashboard, ListTodo, Search, Settings as SettingsIcon } from 'lucide-react';
 import { useState, useEffect, useRef } from 'react';
 import { cn } from '../lib/utils';
 import { ThemeToggle } from './ThemeToggle';
 import { useTheme } from '../context/ThemeContext';
+import { BoardSwitcher } from './BoardSwitcher';
+import { SavedViewsNav } from './SavedViewsNav';
+import { CommandPalette } from './CommandPalette';
+import { useBoardPath } from '../hooks/use-board-path';
 
 export function Layout() {
   const location = useLocation();
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
   const sidebarRef = useRef<HTMLDivElement>(null);
   const { theme } = useTheme();
+  const boardPath = useBoardPath();
 
   // Check for mobile viewport
   useEffect(() => {
@@ -78,7 +84,7 @@ export function Layout() {
           theme === 'dark' ? "border-indigo-900" : "border-indigo-800"
         )}>
           <Link 
-            to="/" 
+            to={boardPath()} 
             className={cn(
               "text-xl font-bold transition-opacity duration-200",
               (!sidebarOpen && !isMobile) && "opacity-0"
@@ -88,19 +94,23 @@ export function Layout() {
           </Link>
           {/* Theme toggle is now in the top bar instead of here */}
         </div>
+        {/* Board switcher */}
+        <div className="px-3 pt-4">
+          <BoardSwitcher collapsed={!sidebarOpen && !isMobile} />
+        </div>
         {/* Sidebar Navigation */}
-        <nav className="flex-1 px-3 py-4">
+        <nav className="flex-1 overflow-y-auto px-3 py-4">
           <ul className="space-y-2">
             <li>
               <Link
-                to="/"
+                to={boardPath()}
                 className={cn(
                   "flex items-center px-3 py-3 rounded-lg transition-all",
                   theme === 'dark' 
                     ? "hover:bg-indigo-900" 
                     : "hover:bg-indigo-800",
                   "group",
-                  location.pathname === "/"
+                  location.pathname === boardPath() || location.pathname.startsWith(boardPath("/task/"))
                     ? theme === 'dark' ? "bg-indigo-900 text-white" : "bg-indigo-800 text-white"
                     : "text-indigo-100"
                 )}
@@ -116,14 +126,14 @@ export function Layout() {
             </li>
             <li>
               <Link
-                to="/tasks"
+                to={boardPath("/tasks")}
                 className={cn(
                   "flex items-center px-3 py-3 rounded-lg transition-all",
                   theme === 'dark' 
                     ? "hover:bg-indigo-900" 
                     : "hover:bg-indigo-800",
                   "group",
-                  location.pathname === "/tasks"
+                  location.pathname === boardPath("/tasks")
                     ? theme === 'dark' ? "bg-indigo-900 text-white" : "bg-indigo-800 text-white"
                     : "text-indigo-100"
                 )}
@@ -139,14 +149,14 @@ export function Layout() {
             </li>
             <li>
               <Link
-                to="/settings"
+                to={boardPath("/settings")}
                 className={cn(
                   "flex items-center px-3 py-3 rounded-lg transition-all",
                   theme === 'dark' 
                     ? "hover:bg-indigo-900" 
                     : "hover:bg-indigo-800",
                   "group",
-                  location.pathname === "/settings"
+                  location.pathname === boardPath("/settings")
                     ? theme === 'dark' ? "bg-indigo-900 text-white" : "bg-indigo-800 text-white"
                     : "text-indigo-100"
                 )}
@@ -161,6 +171,7 @@ export function Layout() {
               </Link>
             </li>
           </ul>
+          <SavedViewsNav collapsed={!sidebarOpen && !isMobile} />
         </nav>
         {/* Sidebar Footer */}
         <div className={cn(
@@ -199,9 +210,23 @@ export function Layout() {
         {/* Top header with theme toggle (desktop) */}
         {!isMobile && (
           <header className={cn(
-            "sticky top-0 z-10 h-16 shadow-sm flex items-center justify-end px-6",
+            "sticky top-0 z-10 h-16 shadow-sm flex items-center justify-end gap-3 px-6",
             theme === 'dark' ? "bg-slate-800/70 backdrop-blur-sm" : "bg-white/70 backdrop-blur-sm"
           )}>
+            <button
+              type="button"
+              onClick={() => setIsPaletteOpen(true)}
+              className={cn(
+                "flex w-64 items-center rounded-md border px-3 py-1.5 text-sm transition-colors",
+                theme === 'dark'
+                  ? "border-slate-600 text-slate-400 hover:bg-slate-700"
+                  : "border-slate-300 text-slate-500 hover:bg-slate-100"
+              )}
+            >
+              <Search className="h-4 w-4 mr-2" />
+              Search or run a command
+              <kbd className="ml-auto font-mono text-xs opacity-70">Ctrl K</kbd>
+            </button>
             <ThemeToggle />
           </header>
         )}
@@ -220,10 +245,20 @@ export function Layout() {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
               </svg>
             </button>
-            <Link to="/" className="text-xl font-bold">
+            <Link to={boardPath()} className="text-xl font-bold">
               StorFlo
             </Link>
-            <ThemeToggle />
+            <div className="flex items-center gap-1">
+              <button
+                type="button"
+                onClick={() => setIsPaletteOpen(true)}
+                className="p-2 rounded-md"
+                aria-label="Search or run a command"
+              >
+                <Search className="h-5 w-5" />
+              </button>
+              <ThemeToggle />
+            </div>
           </header>
         )}
         <main className={cn(
@@ -235,6 +270,8 @@ export function Layout() {
           <Outlet />
         </main>
       </div>
+      {/* Ctrl+K / Cmd+K */}
+      <CommandPalette open={isPaletteOpen} onOpenChange={setIsPaletteOpen} />
     </div>
   );
 }
\ No newline at end of file
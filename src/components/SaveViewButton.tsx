@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { BookmarkPlus } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { v4 as uuidv4 } from 'uuid';
+import { useTaskContext } from '../context/TaskContext';
+import { SavedViewPage } from '../types/task';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+
+interface SaveViewButtonProps {
+  query: string;
+  page: SavedViewPage;
+}
+
+// Saves the current query as a named view on this board
+export function SaveViewButton({ query, page }: SaveViewButtonProps) {
+  const { settings, updateSettings } = useTaskContext();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const savedViews = settings.savedViews ?? [];
+  const existing = savedViews.find(view => view.name.toLowerCase() === name.trim().toLowerCase());
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed || !query.trim()) return;
+
+    // Saving under an existing name replaces that view's query
+    updateSettings({
+      savedViews: existing
+        ? savedViews.map(view => (view.id === existing.id ? { ...view, query, page } : view))
+        : [...savedViews, { id: uuidv4(), name: trimmed, query, page }],
+    });
+    toast.success(`Saved view "${trimmed}"`);
+    setOpen(false);
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={!query.trim()}
+        onClick={() => {
+          setName('');
+          setOpen(true);
+        }}
+      >
+        <BookmarkPlus className="h-4 w-4 mr-1" />
+        Save view
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+            <DialogDescription>
+              Saved views appear in the sidebar of this board.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">View Name</label>
+              <Input
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder="e.g. My high-priority work"
+                autoFocus
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleSave();
+                }}
+              />
+              <p className="text-xs text-slate-500 dark:text-slate-400 font-mono break-all">{query}</p>
+              {existing && (
+                <p className="text-xs text-amber-600 dark:text-amber-400">
+                  This will replace the query of the existing "{existing.name}" view.
+                </p>
+              )}
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={!name.trim()}>
+                {existing ? 'Replace View' : 'Save View'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
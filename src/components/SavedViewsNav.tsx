@@ -0,0 +1,81 @@
+import { Link, useLocation } from 'react-router-dom';
+import { Bookmark, X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useTaskContext } from '../context/TaskContext';
+import { useTheme } from '../context/ThemeContext';
+import { useBoardPath } from '../hooks/use-board-path';
+import { SavedView } from '../types/task';
+import { cn } from '../lib/utils';
+
+interface SavedViewsNavProps {
+  // Sidebar is collapsed to icons only
+  collapsed?: boolean;
+}
+
+// The board's saved views as sidebar links
+export function SavedViewsNav({ collapsed = false }: SavedViewsNavProps) {
+  const location = useLocation();
+  const { theme } = useTheme();
+  const boardPath = useBoardPath();
+  const { settings, updateSettings } = useTaskContext();
+  const savedViews = settings.savedViews ?? [];
+
+  if (savedViews.length === 0) return null;
+
+  const viewPath = (view: SavedView) => boardPath(view.page === 'tasks' ? '/tasks' : '');
+  const isActive = (view: SavedView) =>
+    location.pathname === viewPath(view) && new URLSearchParams(location.search).get('q') === view.query;
+
+  const handleDelete = (view: SavedView) => {
+    updateSettings({ savedViews: savedViews.filter(v => v.id !== view.id) });
+    toast.success(`Deleted view "${view.name}"`);
+  };
+
+  return (
+    <div className="mt-6">
+      <p className={cn(
+        "px-3 mb-2 text-xs font-semibold uppercase tracking-wider text-indigo-300 whitespace-nowrap transition-opacity duration-200",
+        collapsed && "opacity-0"
+      )}>
+        Views
+      </p>
+      <ul className="space-y-1">
+        {savedViews.map(view => (
+          <li key={view.id} className="group relative">
+            <Link
+              to={`${viewPath(view)}?q=${encodeURIComponent(view.query)}`}
+              title={collapsed ? view.name : view.query}
+              className={cn(
+                "flex items-center px-3 py-2 rounded-lg transition-all",
+                theme === 'dark'
+                  ? "hover:bg-indigo-900"
+                  : "hover:bg-indigo-800",
+                isActive(view)
+                  ? theme === 'dark' ? "bg-indigo-900 text-white" : "bg-indigo-800 text-white"
+                  : "text-indigo-100"
+              )}
+            >
+              <Bookmark className="h-4 w-4 ml-0.5 mr-3 flex-shrink-0" />
+              <span className={cn(
+                "truncate pr-5 text-sm transition-opacity duration-200",
+                collapsed && "opacity-0 w-0"
+              )}>
+                {view.name}
+              </span>
+            </Link>
+            {!collapsed && (
+              <button
+                type="button"
+                className="absolute right-2 top-1/2 -translate-y-1/2 rounded p-0.5 text-indigo-300 opacity-0 hover:text-white focus:opacity-100 group-hover:opacity-100"
+                onClick={() => handleDelete(view)}
+                aria-label={`Delete view ${view.name}`}
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
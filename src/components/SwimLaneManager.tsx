@@ -3,11 +3,12 @@ import { DndContext, closestCenter, KeyboardSensor, PointerSensor, useSensor, us
 import { SortableContext, horizontalListSortingStrategy, useSortable, arrayMove } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { useTaskContext } from '../context/TaskContext';
-import { SwimLane } from '../types/task';
+import { SwimLane, WipPolicy } from '../types/task';
 import { Button } from './ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
 import { Input } from './ui/input';
 import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from './ui/alert-dialog';
 import { ChevronRight, Edit2, GripHorizontal, Plus, Trash2 } from 'lucide-react';
 import { cn } from '../lib/utils';
@@ -81,6 +82,11 @@ function SortableSwimLane({ lane, onEdit, onDelete }: SortableSwimLaneProps) {
         <GripHorizontal size={16} />
       </div>
       <div className="flex-1 font-medium">{lane.name}</div>
+      {lane.wipLimit !== undefined && (
+        <Badge variant="outline" className="text-xs" title={lane.wipPolicy === 'block' ? 'Moves over the limit are refused' : 'Moves over the limit show a warning'}>
+          WIP {lane.wipLimit}
+        </Badge>
+      )}
       <div className="flex space-x-1">
         <Button 
           variant="ghost" 
@@ -112,6 +118,8 @@ export function SwimLaneManager() {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [newLaneName, setNewLaneName] = useState('');
   const [editingLane, setEditingLane] = useState<SwimLane | null>(null);
+  const [wipLimitValue, setWipLimitValue] = useState('');
+  const [wipPolicyValue, setWipPolicyValue] = useState<WipPolicy>('warn');
   const [deletingLane, setDeletingLane] = useState<SwimLane | null>(null);
   const { theme } = useTheme();
   const isDark = theme === 'dark';
@@ -154,7 +162,14 @@ export function SwimLaneManager() {
 
   const handleEditLane = () => {
     if (editingLane && newLaneName.trim()) {
-      updateSwimLane(editingLane.id, { name: newLaneName.trim() });
+      // An empty or non-positive limit removes it
+      const wipLimit = parseInt(wipLimitValue, 10);
+      const hasLimit = Number.isInteger(wipLimit) && wipLimit > 0;
+      updateSwimLane(editingLane.id, {
+        name: newLaneName.trim(),
+        wipLimit: hasLimit ? wipLimit : undefined,
+        wipPolicy: hasLimit ? wipPolicyValue : undefined,
+      });
       setNewLaneName('');
       setEditingLane(null);
       setIsEditDialogOpen(false);
@@ -172,6 +187,8 @@ export function SwimLaneManager() {
   const openEditDialog = (lane: SwimLane) => {
     setEditingLane(lane);
     setNewLaneName(lane.name);
+    setWipLimitValue(lane.wipLimit !== undefined ? String(lane.wipLimit) : '');
+    setWipPolicyValue(lane.wipPolicy || 'warn');
     setIsEditDialogOpen(true);
   };
 
@@ -186,7 +203,7 @@ export function SwimLaneManager() {
         <div>
           <h2 className="text-lg font-semibold">Manage Swim Lanes</h2>
           <p className="text-sm text-muted-foreground">
-            Drag and drop to reorder, or edit lane names
+            Drag and drop to reorder, or edit lane names and WIP limits
           </p>
         </div>
         <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
@@ -279,6 +296,34 @@ export function SwimLaneManager() {
                 }}
               />
             </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">WIP Limit</label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={wipLimitValue}
+                  onChange={e => setWipLimitValue(e.target.value)}
+                  placeholder="No limit"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">When exceeded</label>
+                <Select
+                  value={wipPolicyValue}
+                  onValueChange={(value) => setWipPolicyValue(value as WipPolicy)}
+                  disabled={!wipLimitValue}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="warn">Warn</SelectItem>
+                    <SelectItem value="block">Refuse the move</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
             <div className="flex justify-end space-x-2">
               <Button variant="outline" onClick={() => setIsEditDialogOpen(false)}>
                 Cancel
@@ -0,0 +1,86 @@
+import { ArrowDown, ArrowUp, Columns3 } from 'lucide-react';
+import { TablePreferences, orderedColumns } from '../lib/taskTable';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+
+interface TableColumnsMenuProps {
+  preferences: TablePreferences;
+  onChange: (updates: Partial<TablePreferences>) => void;
+  onReset: () => void;
+}
+
+// Show, hide and reorder the TasksPage table columns
+export function TableColumnsMenu({ preferences, onChange, onReset }: TableColumnsMenuProps) {
+  const columns = orderedColumns(preferences);
+  const visibleCount = columns.filter(column => !preferences.hidden.includes(column.id)).length;
+
+  const toggleHidden = (columnId: string, visible: boolean) => {
+    onChange({
+      hidden: visible ? preferences.hidden.filter(id => id !== columnId) : [...preferences.hidden, columnId],
+    });
+  };
+
+  const move = (index: number, offset: number) => {
+    const order = columns.map(column => column.id);
+    const [moved] = order.splice(index, 1);
+    order.splice(index + offset, 0, moved);
+    onChange({ order });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="text-slate-700 border-slate-300 dark:text-slate-100 dark:border-slate-600">
+          <Columns3 className="mr-2 h-4 w-4" /> Columns
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 p-2">
+        <ul className="space-y-0.5">
+          {columns.map((column, index) => {
+            const visible = !preferences.hidden.includes(column.id);
+            return (
+              <li key={column.id} className="flex items-center gap-2 rounded px-2 py-1 hover:bg-slate-50 dark:hover:bg-slate-800">
+                <Checkbox
+                  id={`column-${column.id}`}
+                  checked={visible}
+                  // Keep at least one column on screen
+                  disabled={visible && visibleCount === 1}
+                  onCheckedChange={checked => toggleHidden(column.id, checked === true)}
+                />
+                <label htmlFor={`column-${column.id}`} className="flex-1 text-sm">
+                  {column.header}
+                </label>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  disabled={index === 0}
+                  onClick={() => move(index, -1)}
+                  aria-label={`Move ${column.header} up`}
+                >
+                  <ArrowUp className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  disabled={index === columns.length - 1}
+                  onClick={() => move(index, 1)}
+                  aria-label={`Move ${column.header} down`}
+                >
+                  <ArrowDown className="h-3.5 w-3.5" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+        <div className="mt-2 border-t pt-2 dark:border-slate-700">
+          <Button variant="ghost" size="sm" className="w-full" onClick={onReset}>
+            Reset columns and sorting
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
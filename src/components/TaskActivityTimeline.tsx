@@ -0,0 +1,107 @@
+import { ArrowRight, Pencil, PlusCircle, Trash2 } from 'lucide-react';
+import { useTaskContext } from '../context/TaskContext';
+import { TaskActivity, TaskFieldChange } from '../types/task';
+import { TASK_FIELD_LABELS } from '../lib/activity';
+import { formatDate, formatDateTime } from '../lib/formatters';
+import { cn } from '../lib/utils';
+
+interface TaskActivityTimelineProps {
+  taskId: string;
+}
+
+const activityIcons = {
+  created: PlusCircle,
+  updated: Pencil,
+  moved: ArrowRight,
+  deleted: Trash2,
+};
+
+// Logged item by item: a change with no `from` added an item, one with no `to` removed it
+const LIST_FIELDS = ['checklist', 'blockedBy'];
+
+const activityColors = {
+  created: 'bg-green-100 text-green-700 dark:bg-green-900/50 dark:text-green-300',
+  updated: 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/50 dark:text-indigo-300',
+  moved: 'bg-amber-100 text-amber-700 dark:bg-amber-900/50 dark:text-amber-300',
+  deleted: 'bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300',
+};
+
+export function TaskActivityTimeline({ taskId }: TaskActivityTimelineProps) {
+  const { getTaskActivity, swimLanes } = useTaskContext();
+  // Newest first
+  const entries = [...getTaskActivity(taskId)].reverse();
+
+  const laneName = (laneId?: string) =>
+    swimLanes.find(lane => lane.id === laneId)?.name || laneId || 'Unknown';
+
+  const formatValue = (change: TaskFieldChange, value: string | number | null) => {
+    if (value === null) return 'empty';
+    if (change.field === 'desiredDate' || change.field === 'actualDeliveryDate') {
+      return formatDate(String(value));
+    }
+    return String(value);
+  };
+
+  const describe = (entry: TaskActivity) => {
+    switch (entry.type) {
+      case 'created':
+        return 'Created the task';
+      case 'deleted':
+        return 'Deleted the task';
+      case 'moved':
+        return `Moved from ${laneName(entry.fromStatus)} to ${laneName(entry.toStatus)}`;
+      case 'updated':
+        return `Edited ${[...new Set(entry.changes?.map(change => TASK_FIELD_LABELS[change.field] || change.field))].join(', ')}`;
+    }
+  };
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-slate-500 dark:text-slate-400">No activity recorded yet.</p>;
+  }
+
+  return (
+    <ol className="relative space-y-4 border-l border-slate-200 dark:border-slate-700 pl-6">
+      {entries.map(entry => {
+        const Icon = activityIcons[entry.type];
+        return (
+          <li key={entry.id} className="relative">
+            <span className={cn(
+              "absolute -left-[35px] flex h-6 w-6 items-center justify-center rounded-full",
+              activityColors[entry.type]
+            )}>
+              <Icon size={12} />
+            </span>
+            <p className="text-sm font-medium text-slate-900 dark:text-slate-100">
+              {describe(entry)}
+              {entry.via && (
+                <span className="ml-1 text-xs font-normal text-slate-500 dark:text-slate-400">(via {entry.via})</span>
+              )}
+            </p>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {entry.actor || 'Someone'} · {formatDateTime(entry.timestamp)}
+            </p>
+            {entry.type === 'updated' && entry.changes && (
+              <ul className="mt-1 space-y-0.5 text-xs text-slate-600 dark:text-slate-300">
+                {entry.changes.map((change, index) => (
+                  <li key={`${change.field}-${index}`} className="break-words">
+                    <span className="font-medium">{TASK_FIELD_LABELS[change.field] || change.field}:</span>{' '}
+                    {LIST_FIELDS.includes(change.field) && change.from === null ? (
+                      <>added {formatValue(change, change.to)}</>
+                    ) : LIST_FIELDS.includes(change.field) && change.to === null ? (
+                      <>removed <span className="line-through opacity-70">{formatValue(change, change.from)}</span></>
+                    ) : (
+                      <>
+                        <span className="line-through opacity-70">{formatValue(change, change.from)}</span>{' '}
+                        → {formatValue(change, change.to)}
+                      </>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
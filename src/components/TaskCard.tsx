@@ -1,33 +1,70 @@
-import { Paperclip, CalendarIcon, Clock, Tag, CalendarCheck, Info, User, UserCircle } from 'lucide-react';
+import { memo } from 'react';
+import { Paperclip, CalendarIcon, Clock, Tag, CalendarCheck, Info, User, UserCircle, ListChecks, Lock, Eye, Move } from 'lucide-react';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { cn } from '../lib/utils';
-import { Task, Priority } from '../types/task';
+import { Priority } from '../types/task';
 import { Badge } from './ui/badge';
+import { Progress } from './ui/progress';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './ui/tooltip';
-import { useTheme } from '../context/ThemeContext';
+import { useTaskSelector } from '../hooks/use-task-selector';
+import { selectOpenBlockers, selectPeersOnTask, selectTask, shallowEqualArrays } from '../lib/taskStore';
+import { HighlightedText } from './HighlightedText';
 
 interface TaskCardProps {
-  task: Task;
+  taskId: string;
+  // Part of the board's multi-selection
+  selected?: boolean;
+  // Carried along by another card's drag
+  dimmed?: boolean;
+  // A plain click; shift/ctrl/cmd-click toggles selection instead
+  onOpen?: (taskId: string) => void;
+  onToggleSelect?: (taskId: string) => void;
+  // Search words to mark in the title and label
+  highlightWords?: string[];
 }
 
-export function TaskCard({ task }: TaskCardProps) {
-  const { theme } = useTheme();
-  const isDark = theme === 'dark';
-  
-  // Add local formatDate function
-  const formatDate = (dateString: string): string => {
-    try {
-      const date = new Date(dateString);
-      return date.toLocaleDateString('en-US', {
-        month: 'short',
-        day: 'numeric',
-        year: 'numeric'
-      });
-    } catch (error) {
-      return dateString;
-    }
-  };
+// Search words arrive as a new array with every query compile; compare them by content
+const arePropsEqual = (prev: TaskCardProps, next: TaskCardProps) =>
+  prev.taskId === next.taskId &&
+  prev.selected === next.selected &&
+  prev.dimmed === next.dimmed &&
+  prev.onOpen === next.onOpen &&
+  prev.onToggleSelect === next.onToggleSelect &&
+  shallowEqualArrays(prev.highlightWords ?? [], next.highlightWords ?? []);
+
+const formatDate = (dateString: string): string => {
+  try {
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  } catch {
+    return dateString;
+  }
+};
+
+const priorityColors: Record<Priority, string> = {
+  1: 'text-red-600 bg-red-50 border-red-200 dark:text-red-400 dark:bg-red-950/50 dark:border-red-800',
+  2: 'text-amber-600 bg-amber-50 border-amber-200 dark:text-amber-400 dark:bg-amber-950/50 dark:border-amber-800',
+  3: 'text-blue-600 bg-blue-50 border-blue-200 dark:text-blue-400 dark:bg-blue-950/50 dark:border-blue-800',
+};
+
+const priorityLabels: Record<Priority, string> = {
+  1: 'High',
+  2: 'Medium',
+  3: 'Low',
+};
+
+// Memoized, and the task is read from the store rather than passed in: a board
+// change only re-renders the cards whose task (or blockers and peers) changed.
+// No router or theme hooks either, so URL and theme changes don't reach every card.
+export const TaskCard = memo(function TaskCard({ taskId, selected = false, dimmed = false, onOpen, onToggleSelect, highlightWords }: TaskCardProps) {
+  const task = useTaskSelector(selectTask(taskId));
+  const openBlockers = useTaskSelector(selectOpenBlockers(taskId), shallowEqualArrays);
+  const peers = useTaskSelector(selectPeersOnTask(taskId), shallowEqualArrays);
 
   const {
     attributes,
@@ -37,7 +74,7 @@ export function TaskCard({ task }: TaskCardProps) {
     transition,
     isDragging,
   } = useSortable({
-    id: task.id,
+    id: taskId,
     data: {
       type: 'task',
       task,
@@ -47,26 +84,17 @@ export function TaskCard({ task }: TaskCardProps) {
   const style = {
     transform: CSS.Transform.toString(transform),
     transition,
-    opacity: isDragging ? 0.5 : undefined,
+    opacity: isDragging ? 0.5 : dimmed ? 0.4 : undefined,
     cursor: 'grab',
     touchAction: 'none',
   };
 
-  const priorityColors: Record<Priority, string> = isDark ? {
-    1: 'text-red-400 bg-red-950/50 border-red-800',
-    2: 'text-amber-400 bg-amber-950/50 border-amber-800',
-    3: 'text-blue-400 bg-blue-950/50 border-blue-800',
-  } : {
-    1: 'text-red-600 bg-red-50 border-red-200',
-    2: 'text-amber-600 bg-amber-50 border-amber-200',
-    3: 'text-blue-600 bg-blue-50 border-blue-200',
-  };
+  // Just deleted; the lane drops this card in the same commit
+  if (!task) return null;
 
-  const priorityLabels: Record<Priority, string> = {
-    1: 'High',
-    2: 'Medium',
-    3: 'Low',
-  };
+  const checklist = task.checklist || [];
+  const checklistDone = checklist.filter(item => item.done).length;
+  const isDraggedByPeer = peers.some(peer => peer.activity === 'dragging');
 
   return (
     <div
@@ -76,43 +104,89 @@ export function TaskCard({ task }: TaskCardProps) {
       {...listeners}
       className={cn(
         'rounded-md shadow-sm border p-3 hover:shadow-md transition-shadow space-y-2',
-        isDark 
-          ? 'bg-slate-800 border-slate-700 text-slate-100' 
-          : 'bg-white border-slate-200 text-slate-900',
-        isDragging ? 'shadow-lg ring-2 ring-primary/20' : ''
+        'bg-white border-slate-200 text-slate-900 dark:bg-slate-800 dark:border-slate-700 dark:text-slate-100',
+        isDragging ? 'shadow-lg ring-2 ring-primary/20' : '',
+        isDraggedByPeer ? 'ring-2 ring-sky-400' : '',
+        selected ? 'ring-2 ring-indigo-500' : ''
       )}
+      aria-selected={onToggleSelect ? selected : undefined}
+      // Keep shift-click from selecting text across cards
+      onMouseDown={(e) => {
+        if (onToggleSelect && e.shiftKey) e.preventDefault();
+      }}
       data-task-id={task.id}
       data-droppable-id={task.status}
+      // Drags need 8px of movement, so a plain click opens the detail drawer
+      onClick={(e) => {
+        if (onToggleSelect && (e.shiftKey || e.ctrlKey || e.metaKey)) {
+          e.preventDefault();
+          onToggleSelect(task.id);
+          return;
+        }
+        onOpen?.(task.id);
+      }}
     >
       <div className="flex justify-between items-start gap-2">
-        <h3 className={cn(
-          "font-medium text-sm line-clamp-2",
-          isDark ? "text-slate-100" : "text-gray-900"
-        )}>
-          {task.title}
+        <h3 className="font-medium text-sm line-clamp-2 text-gray-900 dark:text-slate-100">
+          <HighlightedText text={task.title} words={highlightWords} />
         </h3>
+        {peers.length > 0 && (
+          <div className="flex -space-x-1.5 shrink-0">
+            {peers.map(peer => (
+              <TooltipProvider key={peer.clientId}>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <span className="flex h-5 w-5 items-center justify-center rounded-full bg-sky-500 text-[10px] font-semibold text-white ring-2 ring-white dark:ring-slate-800">
+                      {peer.activity === 'dragging' ? <Move size={10} /> : peer.user.charAt(0).toUpperCase() || <Eye size={10} />}
+                    </span>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>{peer.user} is {peer.activity === 'dragging' ? 'moving' : 'viewing'} this task</p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            ))}
+          </div>
+        )}
       </div>
 
       {task.description && (
-        <p className={cn(
-          "text-xs line-clamp-2",
-          isDark ? "text-slate-400" : "text-gray-500"
-        )}>
+        <p className="text-xs line-clamp-2 text-gray-500 dark:text-slate-400">
           {task.description}
         </p>
       )}
 
+      {checklist.length > 0 && (
+        <div className="flex items-center gap-2">
+          <ListChecks size={12} className="text-gray-500 dark:text-slate-400" />
+          <Progress value={(checklistDone / checklist.length) * 100} className="h-1.5 flex-1" />
+          <span className="text-xs text-gray-500 dark:text-slate-400">
+            {checklistDone}/{checklist.length}
+          </span>
+        </div>
+      )}
+
       <div className="flex flex-wrap gap-2 pt-1">
+        {openBlockers.length > 0 && (
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Badge variant="outline" className="text-xs bg-red-50 text-red-600 border-red-200 dark:bg-red-950/50 dark:text-red-400 dark:border-red-800">
+                  <Lock size={12} className="mr-1" /> Blocked
+                </Badge>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Waiting on {openBlockers.map(blocker => blocker.title).join(', ')}</p>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        )}
+
         {task.assignee && (
           <TooltipProvider>
             <Tooltip>
               <TooltipTrigger asChild>
-                <Badge variant="outline" className={cn(
-                  "text-xs",
-                  isDark 
-                    ? "bg-indigo-950/50 text-indigo-400 border-indigo-800" 
-                    : "bg-indigo-50 text-indigo-600 border-indigo-200"
-                )}>
+                <Badge variant="outline" className="text-xs bg-indigo-50 text-indigo-600 border-indigo-200 dark:bg-indigo-950/50 dark:text-indigo-400 dark:border-indigo-800">
                   <User size={12} className="mr-1" /> {task.assignee}
                 </Badge>
               </TooltipTrigger>
@@ -127,12 +201,7 @@ export function TaskCard({ task }: TaskCardProps) {
           <TooltipProvider>
             <Tooltip>
               <TooltipTrigger asChild>
-                <Badge variant="outline" className={cn(
-                  "text-xs",
-                  isDark 
-                    ? "bg-pink-950/50 text-pink-400 border-pink-800" 
-                    : "bg-pink-50 text-pink-600 border-pink-200"
-                )}>
+                <Badge variant="outline" className="text-xs bg-pink-50 text-pink-600 border-pink-200 dark:bg-pink-950/50 dark:text-pink-400 dark:border-pink-800">
                   <UserCircle size={12} className="mr-1" /> {task.creator}
                 </Badge>
               </TooltipTrigger>
@@ -148,13 +217,8 @@ export function TaskCard({ task }: TaskCardProps) {
         </Badge>
 
         {task.label && (
-          <Badge variant="outline" className={cn(
-            "text-xs",
-            isDark 
-              ? "bg-violet-950/50 text-violet-400 border-violet-800" 
-              : "bg-violet-50 text-violet-600 border-violet-200"
-          )}>
-            <Tag size={12} className="mr-1" /> {task.label}
+          <Badge variant="outline" className="text-xs bg-violet-50 text-violet-600 border-violet-200 dark:bg-violet-950/50 dark:text-violet-400 dark:border-violet-800">
+            <Tag size={12} className="mr-1" /> <HighlightedText text={task.label} words={highlightWords} />
           </Badge>
         )}
 
@@ -162,12 +226,7 @@ export function TaskCard({ task }: TaskCardProps) {
           <TooltipProvider>
             <Tooltip>
               <TooltipTrigger asChild>
-                <Badge variant="outline" className={cn(
-                  "text-xs",
-                  isDark 
-                    ? "bg-cyan-950/50 text-cyan-400 border-cyan-800" 
-                    : "bg-cyan-50 text-cyan-600 border-cyan-200"
-                )}>
+                <Badge variant="outline" className="text-xs bg-cyan-50 text-cyan-600 border-cyan-200 dark:bg-cyan-950/50 dark:text-cyan-400 dark:border-cyan-800">
                   <CalendarIcon size={12} className="mr-1" /> {formatDate(task.desiredDate)}
                 </Badge>
               </TooltipTrigger>
@@ -182,12 +241,7 @@ export function TaskCard({ task }: TaskCardProps) {
           <TooltipProvider>
             <Tooltip>
               <TooltipTrigger asChild>
-                <Badge variant="outline" className={cn(
-                  "text-xs",
-                  isDark 
-                    ? "bg-green-950/50 text-green-400 border-green-800" 
-                    : "bg-green-50 text-green-600 border-green-200"
-                )}>
+                <Badge variant="outline" className="text-xs bg-green-50 text-green-600 border-green-200 dark:bg-green-950/50 dark:text-green-400 dark:border-green-800">
                   <CalendarCheck size={12} className="mr-1" /> {formatDate(task.actualDeliveryDate)}
                 </Badge>
               </TooltipTrigger>
@@ -200,4 +254,4 @@ export function TaskCard({ task }: TaskCardProps) {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}, arePropsEqual);
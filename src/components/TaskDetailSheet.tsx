@@ -0,0 +1,165 @@
+import { useEffect, useState } from 'react';
+import { CalendarCheck, CalendarIcon, Clock, Edit, Info, Tag, Trash2, User, UserCircle } from 'lucide-react';
+import { useTaskContext } from '../context/TaskContext';
+import { Priority } from '../types/task';
+import { formatDate, formatDateTime } from '../lib/formatters';
+import { showUndoToast } from '../lib/undoToast';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from './ui/sheet';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from './ui/alert-dialog';
+import { TaskForm } from './TaskForm';
+import { TaskActivityTimeline } from './TaskActivityTimeline';
+import { ChecklistEditor } from './ChecklistEditor';
+import { DependencyEditor } from './DependencyEditor';
+
+interface TaskDetailSheetProps {
+  taskId: string | null;
+  onClose: () => void;
+  // Open straight into the edit form, e.g. from the "e" shortcut
+  startEditing?: boolean;
+}
+
+const priorityLabels: Record<Priority, string> = {
+  1: 'High',
+  2: 'Medium',
+  3: 'Low',
+};
+
+export function TaskDetailSheet({ taskId, onClose, startEditing = false }: TaskDetailSheetProps) {
+  const { tasks, swimLanes, deleteTask, getLatestUndo, setPresence } = useTaskContext();
+  const [isEditing, setIsEditing] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+
+  const task = taskId ? tasks[taskId] : undefined;
+  const lane = task ? swimLanes.find(l => l.id === task.status) : undefined;
+
+  useEffect(() => {
+    if (taskId && startEditing) setIsEditing(true);
+  }, [taskId, startEditing]);
+
+  // Let collaborators see who has this task open
+  useEffect(() => {
+    if (!taskId) return;
+    setPresence(taskId, 'viewing');
+    return () => setPresence(null, null);
+  }, [taskId, setPresence]);
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setIsEditing(false);
+      onClose();
+    }
+  };
+
+  const confirmDelete = () => {
+    if (!task) return;
+    deleteTask(task.id);
+    setIsDeleteDialogOpen(false);
+    showUndoToast('Task deleted', getLatestUndo());
+    onClose();
+  };
+
+  const fields = task
+    ? [
+        { icon: Info, label: 'Priority', value: priorityLabels[task.priority] },
+        { icon: Tag, label: 'Label', value: task.label },
+        { icon: User, label: 'Assignee', value: task.assignee },
+        { icon: UserCircle, label: 'Creator', value: task.creator },
+        { icon: CalendarIcon, label: 'Desired date', value: task.desiredDate && formatDate(task.desiredDate) },
+        { icon: CalendarCheck, label: 'Delivered', value: task.actualDeliveryDate && formatDate(task.actualDeliveryDate) },
+        { icon: Clock, label: 'Created', value: formatDateTime(task.createdAt) },
+        { icon: Clock, label: 'Updated', value: formatDateTime(task.updatedAt) },
+      ]
+    : [];
+
+  return (
+    <Sheet open={taskId !== null} onOpenChange={handleOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        {!task ? (
+          <SheetHeader>
+            <SheetTitle>Task not found</SheetTitle>
+            <SheetDescription>This task may have been deleted, or the link is wrong.</SheetDescription>
+          </SheetHeader>
+        ) : isEditing ? (
+          <div className="pt-6">
+            <TaskForm existingTask={task} onSuccess={() => setIsEditing(false)} />
+            <div className="flex justify-end mt-2">
+              <Button variant="ghost" onClick={() => setIsEditing(false)}>Cancel</Button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <SheetHeader className="pr-6">
+              <SheetTitle className="break-words">{task.title}</SheetTitle>
+              <SheetDescription>
+                In <Badge variant="outline">{lane?.name || task.status}</Badge>
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="flex gap-2 my-4">
+              <Button size="sm" onClick={() => setIsEditing(true)}>
+                <Edit className="h-4 w-4 mr-2" />
+                Edit
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/30"
+                onClick={() => setIsDeleteDialogOpen(true)}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+            </div>
+
+            <Tabs defaultValue="details">
+              <TabsList>
+                <TabsTrigger value="details">Details</TabsTrigger>
+                <TabsTrigger value="history">History</TabsTrigger>
+              </TabsList>
+              <TabsContent value="details" className="space-y-4">
+                <p className="text-sm whitespace-pre-wrap break-words text-slate-700 dark:text-slate-200">
+                  {task.description || <span className="text-slate-400">No description</span>}
+                </p>
+                <dl className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {fields.map(({ icon: Icon, label, value }) => (
+                    <div key={label}>
+                      <dt className="flex items-center text-xs text-slate-500 dark:text-slate-400">
+                        <Icon size={12} className="mr-1" /> {label}
+                      </dt>
+                      <dd className="text-sm text-slate-900 dark:text-slate-100">{value || '—'}</dd>
+                    </div>
+                  ))}
+                </dl>
+                <ChecklistEditor task={task} />
+                <DependencyEditor task={task} />
+              </TabsContent>
+              <TabsContent value="history">
+                <TaskActivityTimeline taskId={task.id} />
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </SheetContent>
+
+      <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this task?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{task?.title}" will be removed from the board. You can undo this with Ctrl+Z.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete} className="bg-red-600 text-white hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Sheet>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -6,6 +7,7 @@ import DatePicker from 'react-datepicker';
 import "react-datepicker/dist/react-datepicker.css";
 import { Task, Priority, TaskStatus } from '../types/task';
 import { useTaskContext } from '../context/TaskContext';
+import { useUser } from '../context/UserContext';
 import { Button } from './ui/button';
 import {
   Form,
@@ -21,6 +23,8 @@ import { Textarea } from './ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from './ui/card';
 import { toast } from 'react-hot-toast';
+import { describeMoveRefusal } from '../lib/movePolicy';
+import { showUndoToast } from '../lib/undoToast';
 
 // Dynamically build the task form schema
 const createTaskFormSchema = (swimLaneIds: string[]) => {
@@ -38,10 +42,15 @@ const createTaskFormSchema = (swimLaneIds: string[]) => {
 type TaskFormProps = {
   existingTask?: Task;
   onSuccess?: () => void;
+  // Lane new tasks start in; defaults to the first lane
+  defaultStatus?: string;
 };
 
-export function TaskForm({ existingTask, onSuccess }: TaskFormProps) {
-  const { addTask, updateTask, swimLanes } = useTaskContext();
+export function TaskForm({ existingTask, onSuccess, defaultStatus }: TaskFormProps) {
+  const { tasks, addTask, updateTask, checkMove, swimLanes, getLatestUndo, remoteTaskUpdates } = useTaskContext();
+  const { currentUser } = useUser();
+  // When this form started editing; later changes from other tabs show a notice
+  const [editingSince, setEditingSince] = useState(() => new Date().toISOString());
   const [desiredDate, setDesiredDate] = useState<Date | null>(
     existingTask?.desiredDate ? new Date(existingTask.desiredDate) : null
   );
@@ -51,6 +60,7 @@ export function TaskForm({ existingTask, onSuccess }: TaskFormProps) {
 
   // Get array of available swimlane IDs
   const swimLaneIds = swimLanes.map(lane => lane.id);
+  const initialStatus = defaultStatus && swimLaneIds.includes(defaultStatus) ? defaultStatus : swimLaneIds[0] ?? '';
 
   // Create the schema with available swimlanes
   const taskFormSchema = createTaskFormSchema(swimLaneIds);
@@ -76,38 +86,69 @@ export function TaskForm({ existingTask, onSuccess }: TaskFormProps) {
           description: '',
           priority: 2,
           label: '',
-          status: swimLaneIds.length > 0 ? swimLaneIds[0] : '',
+          status: initialStatus,
           assignee: '',
-          creator: '',
+          creator: currentUser,
         },
   });
 
+  const latestTask = existingTask ? tasks[existingTask.id] : undefined;
+  const remoteUpdatedAt = existingTask ? remoteTaskUpdates[existingTask.id] : undefined;
+  const changedElsewhere = !!remoteUpdatedAt && remoteUpdatedAt > editingSince;
+
+  // Throw away unsaved edits and start over from the other tab's version
+  const loadLatest = () => {
+    if (!latestTask) return;
+    form.reset({
+      title: latestTask.title,
+      description: latestTask.description,
+      priority: latestTask.priority,
+      label: latestTask.label,
+      status: latestTask.status,
+      assignee: latestTask.assignee || '',
+      creator: latestTask.creator || '',
+    });
+    setDesiredDate(latestTask.desiredDate ? new Date(latestTask.desiredDate) : null);
+    setActualDeliveryDate(latestTask.actualDeliveryDate ? new Date(latestTask.actualDeliveryDate) : null);
+    setEditingSince(new Date().toISOString());
+  };
+
   const onSubmit = (data: TaskFormValues, action: 'close' | 'addAnother' = 'close') => {
     try {
       if (existingTask) {
+        // A new status goes through the same blocker and WIP policies as dragging the card
+        const refusal = checkMove(existingTask.id, data.status);
+        if (refusal) {
+          toast.error(describeMoveRefusal(existingTask, refusal));
+          return;
+        }
         updateTask(existingTask.id, {
           ...data,
-          desiredDate: desiredDate === null ? undefined : (desiredDate ? desiredDate.toISOString() : existingTask.desiredDate),
+          desiredDate: desiredDate === null ? '' : (desiredDate ? desiredDate.toISOString() : existingTask.desiredDate),
           actualDeliveryDate: actualDeliveryDate === null ? undefined : (actualDeliveryDate ? actualDeliveryDate.toISOString() : existingTask.actualDeliveryDate),
         });
-        toast.success('Task updated');
+        showUndoToast('Task updated', getLatestUndo());
         if (onSuccess) onSuccess();
       } else {
-        addTask({
+        const { task, refused } = addTask({
           ...data,
           desiredDate: desiredDate ? desiredDate.toISOString() : new Date().toISOString(),
           actualDeliveryDate: actualDeliveryDate ? actualDeliveryDate.toISOString() : undefined,
         });
-        toast.success('Task created');
+        if (refused) {
+          toast.error(describeMoveRefusal(task, refused));
+          return;
+        }
+        showUndoToast('Task created', getLatestUndo());
         if (action === 'close') {
           form.reset({
             title: '',
             description: '',
             priority: 2,
             label: '',
-            status: swimLaneIds.length > 0 ? swimLaneIds[0] : '',
+            status: initialStatus,
             assignee: '',
-            creator: '',
+            creator: currentUser,
           });
           setDesiredDate(null);
           setActualDeliveryDate(null);
@@ -119,9 +160,9 @@ export function TaskForm({ existingTask, onSuccess }: TaskFormProps) {
             description: '',
             priority: 2,
             label: '',
-            status: swimLaneIds.length > 0 ? swimLaneIds[0] : '',
+            status: initialStatus,
             assignee: '',
-            creator: '',
+            creator: currentUser,
           });
           setDesiredDate(null);
           setActualDeliveryDate(null);
@@ -145,6 +186,21 @@ export function TaskForm({ existingTask, onSuccess }: TaskFormProps) {
         </CardDescription>
       </CardHeader>
       <CardContent>
+        {changedElsewhere && (
+          <div className="mb-4 flex items-start gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800 dark:border-amber-800 dark:bg-amber-950/50 dark:text-amber-200">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            {latestTask ? (
+              <div className="flex-1">
+                <p>This task was changed in another tab or by another user. Saving will overwrite those changes.</p>
+                <Button type="button" variant="outline" size="sm" className="mt-2" onClick={loadLatest}>
+                  Load latest version
+                </Button>
+              </div>
+            ) : (
+              <p className="flex-1">This task was deleted in another tab or by another user. Saving will not bring it back.</p>
+            )}
+          </div>
+        )}
         <Form {...form}>
           <form
             onSubmit={e => {
@@ -0,0 +1,162 @@
+import { useRef, useState } from 'react';
+import { AlertTriangle, Search, X } from 'lucide-react';
+import { useTaskContext } from '../context/TaskContext';
+import { useUser } from '../context/UserContext';
+import { QueryError, QuerySuggestion, getQuerySuggestions } from '../lib/query';
+import { cn } from '../lib/utils';
+import { Input } from './ui/input';
+
+interface TaskQueryBarProps {
+  value: string;
+  onChange: (value: string) => void;
+  errors: QueryError[];
+  className?: string;
+}
+
+// Query text with the parts that have errors underlined
+function HighlightedQuery({ value, errors }: { value: string; errors: QueryError[] }) {
+  const parts: { text: string; error: boolean }[] = [];
+  let index = 0;
+  errors.forEach(error => {
+    if (error.start < index) return;
+    parts.push({ text: value.slice(index, error.start), error: false });
+    parts.push({ text: value.slice(error.start, error.end), error: true });
+    index = error.end;
+  });
+  parts.push({ text: value.slice(index), error: false });
+
+  return (
+    <>
+      {parts.map((part, i) => (
+        <span key={i} className={cn(part.error && 'underline decoration-wavy decoration-red-500')}>
+          {part.text}
+        </span>
+      ))}
+    </>
+  );
+}
+
+export function TaskQueryBar({ value, onChange, errors, className }: TaskQueryBarProps) {
+  const { tasks, swimLanes } = useTaskContext();
+  const { currentUser } = useUser();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const [cursor, setCursor] = useState(value.length);
+  const [isFocused, setIsFocused] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  const suggestions = getQuerySuggestions(value, cursor, { tasks, swimLanes, currentUser });
+  const showSuggestions = isFocused && !dismissed && suggestions.items.length > 0;
+
+  const syncCursor = (input: HTMLInputElement) => {
+    setCursor(input.selectionStart ?? input.value.length);
+    if (backdropRef.current) backdropRef.current.scrollLeft = input.scrollLeft;
+  };
+
+  const applySuggestion = (suggestion: QuerySuggestion) => {
+    const next = value.slice(0, suggestions.start) + suggestion.insert + value.slice(suggestions.end);
+    const nextCursor = suggestions.start + suggestion.insert.length;
+    onChange(next);
+    setCursor(nextCursor);
+    setActiveIndex(0);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(nextCursor, nextCursor);
+    });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions) return;
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(index => (index + step + suggestions.items.length) % suggestions.items.length);
+    } else if (event.key === 'Enter' || event.key === 'Tab') {
+      event.preventDefault();
+      applySuggestion(suggestions.items[Math.min(activeIndex, suggestions.items.length - 1)]);
+    } else if (event.key === 'Escape') {
+      setDismissed(true);
+    }
+  };
+
+  return (
+    <div className={cn('space-y-1', className)}>
+      <div className="relative">
+        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-slate-400" />
+        {/* Mirrors the input text underneath it so errors can be underlined in place */}
+        <div
+          ref={backdropRef}
+          aria-hidden
+          className="pointer-events-none absolute inset-0 flex h-9 items-center overflow-hidden whitespace-pre border border-transparent pl-8 pr-8 text-base text-transparent md:text-sm"
+        >
+          <HighlightedQuery value={value} errors={errors} />
+        </div>
+        <Input
+          ref={inputRef}
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setDismissed(false);
+            setActiveIndex(0);
+            syncCursor(e.target);
+          }}
+          onSelect={(e) => syncCursor(e.currentTarget)}
+          onScroll={(e) => syncCursor(e.currentTarget)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+          placeholder='status:in-progress priority:1 assignee:alice due<2026-11-01 -label:bug "login page"'
+          className={cn('relative pl-8 pr-8', errors.length > 0 && 'border-red-400 focus-visible:ring-red-400')}
+          aria-invalid={errors.length > 0}
+          aria-label="Filter tasks"
+          spellCheck={false}
+          autoComplete="off"
+        />
+        {value && (
+          <button
+            type="button"
+            className="absolute right-2.5 top-2.5 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200"
+            onClick={() => onChange('')}
+            aria-label="Clear query"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+
+        {showSuggestions && (
+          <ul className="absolute left-0 top-full z-20 mt-1 w-full max-w-md overflow-hidden rounded-md border bg-white py-1 text-sm shadow-md dark:border-slate-700 dark:bg-slate-800">
+            {suggestions.items.map((suggestion, index) => (
+              <li key={suggestion.label}>
+                <button
+                  type="button"
+                  className={cn(
+                    'flex w-full items-center justify-between gap-4 px-3 py-1.5 text-left',
+                    index === activeIndex ? 'bg-slate-100 dark:bg-slate-700' : 'hover:bg-slate-50 dark:hover:bg-slate-700/50'
+                  )}
+                  // Keep focus in the input so the list stays open
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => applySuggestion(suggestion)}
+                >
+                  <span className="font-mono">{suggestion.label}</span>
+                  {suggestion.detail && <span className="text-xs text-slate-500 dark:text-slate-400">{suggestion.detail}</span>}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="space-y-0.5 text-xs text-red-600 dark:text-red-400">
+          {errors.map((error, index) => (
+            <li key={index} className="flex items-center">
+              <AlertTriangle className="h-3 w-3 mr-1 shrink-0" />
+              {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { useSyncExternalStore } from 'react';
+import { toast } from 'react-hot-toast';
+import type { UndoHandle } from '../context/TaskContext';
+
+interface UndoToastButtonProps {
+  step: UndoHandle;
+  toastId: string;
+}
+
+export function UndoToastButton({ step, toastId }: UndoToastButtonProps) {
+  // Once anything newer is recorded (or this step was undone), the button would undo something else
+  const isLatest = useSyncExternalStore(step.subscribe, step.isLatest);
+  return (
+    <button
+      type="button"
+      disabled={!isLatest}
+      title={isLatest ? undefined : 'Newer changes were made since'}
+      className="rounded-md border border-slate-300 px-2 py-0.5 text-xs font-medium text-slate-700 hover:bg-slate-100 disabled:cursor-not-allowed disabled:opacity-50 disabled:hover:bg-transparent"
+      onClick={() => {
+        step.undo();
+        toast.dismiss(toastId);
+      }}
+    >
+      Undo
+    </button>
+  );
+}
@@ -0,0 +1,219 @@
+import { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Board, BoardSettings, DEFAULT_BOARD_ID, SwimLane } from '../types/task';
+import { BoardListRepository, TaskRepository, createBoardListRepository, createTaskRepository } from '../lib/repositories';
+import {
+  PersistedTasks,
+  parseBoardSettings,
+  parseBoards,
+  parsePersistedTasks,
+  parseSwimLanes,
+  toPersistedBoards,
+  toPersistedSettings,
+  toPersistedSwimLanes,
+} from '../lib/boardSchema';
+import { DataRecoveryScreen } from '../components/DataRecoveryScreen';
+
+const LAST_BOARD_STORAGE_KEY = 'kanban-last-board';
+
+interface BoardContextType {
+  boards: Board[];
+  activeBoards: Board[];
+  archivedBoards: Board[];
+  // Board to open when none is named in the URL
+  lastBoardId: string;
+  setLastBoardId: (id: string) => void;
+  getBoard: (id: string) => Board | undefined;
+  getRepository: (id: string) => TaskRepository;
+  createBoard: (name: string) => Board;
+  renameBoard: (id: string, name: string) => void;
+  archiveBoard: (id: string) => void;
+  restoreBoard: (id: string) => void;
+  duplicateBoard: (id: string, name: string) => Promise<Board>;
+  createBoardWithData: (name: string, data: BoardData) => Promise<Board>;
+}
+
+// Validated contents for a new board; missing parts start from the defaults
+interface BoardData {
+  tasks?: PersistedTasks | null;
+  swimLanes?: SwimLane[] | null;
+  settings?: BoardSettings | null;
+}
+
+interface BoardProviderProps {
+  children: ReactNode;
+  // Storage backend kind (see VITE_TASK_REPOSITORY)
+  kind?: string;
+}
+
+const createDefaultBoard = (): Board => {
+  const now = new Date().toISOString();
+  return { id: DEFAULT_BOARD_ID, name: 'My Board', createdAt: now, updatedAt: now };
+};
+
+const BoardContext = createContext<BoardContextType | undefined>(undefined);
+
+export function BoardProvider({ children, kind }: BoardProviderProps) {
+  const [boards, setBoards] = useState<Board[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [loadError, setLoadError] = useState<Error | null>(null);
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  const [lastBoardId, setLastBoardId] = useState<string>(
+    () => localStorage.getItem(LAST_BOARD_STORAGE_KEY) || DEFAULT_BOARD_ID
+  );
+
+  const listRepositoryRef = useRef<BoardListRepository | null>(null);
+  if (!listRepositoryRef.current) {
+    listRepositoryRef.current = createBoardListRepository(kind);
+  }
+  const listRepository = listRepositoryRef.current;
+
+  // One repository per board, created on first use and reused afterwards
+  const repositoriesRef = useRef(new Map<string, TaskRepository>());
+
+  const getRepository = (id: string) => {
+    let repository = repositoriesRef.current.get(id);
+    if (!repository) {
+      repository = createTaskRepository(kind, id);
+      repositoriesRef.current.set(id, repository);
+    }
+    return repository;
+  };
+
+  // Load the board list; a missing list means only the original board exists
+  useEffect(() => {
+    let cancelled = false;
+
+    listRepository
+      .loadBoards()
+      .then(raw => {
+        const savedBoards = raw !== null ? parseBoards(raw) : null;
+        if (cancelled) return;
+        setBoards(savedBoards && savedBoards.length > 0 ? savedBoards : [createDefaultBoard()]);
+        setLoadError(null);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Failed to load boards', error);
+        setLoadError(error instanceof Error ? error : new Error(String(error)));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [listRepository, loadAttempt]);
+
+  // Save the board list whenever it changes
+  useEffect(() => {
+    if (!isLoaded || loadError) return;
+    listRepository
+      .saveBoards(toPersistedBoards(boards))
+      .catch(error => console.error('Failed to save boards', error));
+  }, [boards, isLoaded, loadError, listRepository]);
+
+  useEffect(() => {
+    localStorage.setItem(LAST_BOARD_STORAGE_KEY, lastBoardId);
+  }, [lastBoardId]);
+
+  const retryLoad = () => {
+    setIsLoaded(false);
+    setLoadAttempt(attempt => attempt + 1);
+  };
+
+  // Only the list is reset; each board's own data is left where it is
+  const resetBoards = () => {
+    setBoards([createDefaultBoard()]);
+    setLoadError(null);
+  };
+
+  const getBoard = (id: string) => boards.find(board => board.id === id);
+
+  const updateBoard = (id: string, updates: Partial<Omit<Board, 'id'>>) => {
+    setBoards(prev =>
+      prev.map(board =>
+        board.id === id ? { ...board, ...updates, updatedAt: new Date().toISOString() } : board
+      )
+    );
+  };
+
+  const createBoard = (name: string) => {
+    const now = new Date().toISOString();
+    const board: Board = { id: uuidv4(), name, createdAt: now, updatedAt: now };
+    setBoards(prev => [...prev, board]);
+    return board;
+  };
+
+  const renameBoard = (id: string, name: string) => updateBoard(id, { name });
+
+  const archiveBoard = (id: string) => updateBoard(id, { archived: true });
+
+  const restoreBoard = (id: string) => updateBoard(id, { archived: false });
+
+  // Write the data first, then list the board, so it never opens half-written
+  const createBoardWithData = async (name: string, { tasks, swimLanes, settings }: BoardData) => {
+    const now = new Date().toISOString();
+    const board: Board = { id: uuidv4(), name, createdAt: now, updatedAt: now };
+    const target = getRepository(board.id);
+    await Promise.all([
+      tasks && target.saveTasks(tasks),
+      swimLanes && target.saveSwimLanes(toPersistedSwimLanes(swimLanes)),
+      settings && target.saveSettings(toPersistedSettings(settings)),
+    ]);
+    setBoards(prev => [...prev, board]);
+    return board;
+  };
+
+  // Copy a board's swim lanes, tasks and settings into a new board.
+  // The activity log starts empty so the copy has its own history.
+  const duplicateBoard = async (id: string, name: string) => {
+    const source = getRepository(id);
+    const [rawTasks, rawSwimLanes, rawSettings] = await Promise.all([
+      source.loadTasks(),
+      source.loadSwimLanes(),
+      source.loadSettings(),
+    ]);
+
+    // Validate first so a corrupt source never produces a half-written copy
+    return createBoardWithData(name, {
+      tasks: rawTasks !== null ? parsePersistedTasks(rawTasks) : null,
+      swimLanes: rawSwimLanes !== null ? parseSwimLanes(rawSwimLanes) : null,
+      settings: rawSettings !== null ? parseBoardSettings(rawSettings) : null,
+    });
+  };
+
+  if (loadError) {
+    return <DataRecoveryScreen error={loadError} onRetry={retryLoad} onReset={resetBoards} />;
+  }
+
+  // Routes depend on the board list, so wait for it before rendering
+  if (!isLoaded) return null;
+
+  const value = {
+    boards,
+    activeBoards: boards.filter(board => !board.archived),
+    archivedBoards: boards.filter(board => board.archived),
+    lastBoardId,
+    setLastBoardId,
+    getBoard,
+    getRepository,
+    createBoard,
+    renameBoard,
+    archiveBoard,
+    restoreBoard,
+    duplicateBoard,
+    createBoardWithData,
+  };
+
+  return <BoardContext.Provider value={value}>{children}</BoardContext.Provider>;
+}
+
+export function useBoards() {
+  const context = useContext(BoardContext);
+  if (context === undefined) {
+    throw new Error('useBoards must be used within a BoardProvider');
+  }
+  return context;
+}
@@ -1,348 +1,965 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { Task, TaskMap, TasksByStatus, TaskStatus, SwimLane, DEFAULT_SWIMLANES, DEFAULT_SWIMLANE_IDS } from '../types/task';
+import { createContext, useContext, useState, useEffect, useLayoutEffect, useReducer, useRef, useCallback, useMemo, ReactNode } from 'react';
+import { Task, TaskMap, TasksByStatus, TaskStatus, SwimLane, BoardSnapshot, BoardSettings, ChecklistItem, ActivityLog, TaskActivity, DEFAULT_SWIMLANES, DEFAULT_BOARD_ID } from '../types/task';
+import { TaskRepository, createLocalStorageRepository } from '../lib/repositories';
+import {
+  parseActivityLog,
+  parseBoardSettings,
+  parsePersistedTasks,
+  parseSwimLanes,
+  toPersistedActivity,
+  toPersistedSettings,
+  toPersistedSwimLanes,
+  toPersistedTasks,
+} from '../lib/boardSchema';
+import { createActivity, diffTaskFields, diffTaskMaps } from '../lib/activity';
+import { wouldCreateCycle } from '../lib/dependencies';
+import { MoveRefusal, getMoveRefusal } from '../lib/movePolicy';
+import { BoardChannel, BoardSyncState, diffBoardStates, mergeBoardDelta, openBoardChannel } from '../lib/tabSync';
+import { SearchResult, createSearchIndex } from '../lib/search';
+import { BoardAction, boardReducer, checkedBoardReducer, createEmptyBoard } from '../lib/boardReducer';
+import { TaskStore, createTaskStore } from '../lib/taskStore';
+import {
+  CollabClient,
+  CollabStatus,
+  PresenceActivity,
+  PresencePeer,
+  createCollabClient,
+  loadCollabReplica,
+  saveCollabReplica,
+} from '../lib/collabSync';
+import {
+  BoardDoc,
+  Clock,
+  applyDocOperations,
+  createBoardDoc,
+  createClock,
+  diffToDocOperations,
+  docStamps,
+  docToOperations,
+  docToSnapshot,
+  operationStamps,
+} from '../lib/crdt';
+import { useUser } from './UserContext';
+import { DataRecoveryScreen } from '../components/DataRecoveryScreen';
 import { v4 as uuidv4 } from 'uuid';
 
 interface TaskContextType {
   tasks: TaskMap;
   tasksByStatus: TasksByStatus;
   swimLanes: SwimLane[];
-  addTask: (task: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>) => Task;
-  updateTask: (id: string, task: Partial<Task>) => void;
+  // Not added when the blocker or WIP policy refuses the task's lane
+  addTask: (task: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>) => AddTaskResult;
+  // False when a status change is refused by the blocker or WIP policy (nothing changes then)
+  updateTask: (id: string, task: Partial<Task>) => boolean;
   deleteTask: (id: string) => void;
-  moveTask: (taskId: string, newStatus: TaskStatus) => void;
+  moveTask: (taskId: string, newStatus: TaskStatus) => boolean;
+  // Why the blocker or WIP policy would refuse moving the task to the lane, or null
+  checkMove: (taskId: string, laneId: TaskStatus) => MoveRefusal | null;
   reorderTasks: (status: TaskStatus, newOrder: string[]) => void;
+  // Bulk edits, each a single undoable step
+  bulkUpdateTasks: (ids: string[], updates: Partial<Task>, label: string) => void;
+  // With `placeBefore` the tasks are also grouped in the given order, before that card (null: at the end)
+  bulkMoveTasks: (ids: string[], newStatus: TaskStatus, placeBefore?: string | null) => BulkMoveResult;
+  bulkDeleteTasks: (ids: string[]) => void;
   addSwimLane: (name: string) => void;
   updateSwimLane: (id: string, updates: Partial<SwimLane>) => void;
   deleteSwimLane: (id: string) => void;
   reorderSwimLanes: (newOrder: string[]) => void;
+  // Checklist
+  addChecklistItem: (taskId: string, text: string) => void;
+  updateChecklistItem: (taskId: string, itemId: string, updates: Partial<Omit<ChecklistItem, 'id'>>) => void;
+  toggleChecklistItem: (taskId: string, itemId: string) => ChecklistToggleResult;
+  reorderChecklistItems: (taskId: string, newOrder: string[]) => void;
+  deleteChecklistItem: (taskId: string, itemId: string) => void;
+  // Dependencies
+  addDependency: (taskId: string, blockerId: string) => boolean;
+  removeDependency: (taskId: string, blockerId: string) => void;
+  // Board settings
+  settings: BoardSettings;
+  updateSettings: (updates: Partial<BoardSettings>) => void;
+  // Full-text search over title, label, assignee and description, best match first
+  searchTasks: (query: string) => SearchResult[];
+  // Activity log
+  activityLog: ActivityLog;
+  getTaskActivity: (taskId: string) => TaskActivity[];
+  // Cross-tab and multi-user sync: when each task was last changed elsewhere (ISO time)
+  remoteTaskUpdates: Record<string, string>;
+  // Multi-user sync; status is null when no sync server is configured
+  collabStatus: CollabStatus | null;
+  collabPeers: PresencePeer[];
+  setPresence: (taskId: string | null, activity: PresenceActivity | null) => void;
+  // History
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
+  undo: () => string | null;
+  redo: () => string | null;
+  // The step just recorded, for undo buttons that must not undo anything newer
+  getLatestUndo: () => UndoHandle | null;
+  runBatch: (label: string, mutate: () => void) => void;
+  // Swap in a whole board (e.g. from an import) as one undoable step
+  replaceBoardData: (snapshot: BoardSnapshot, label: string) => void;
 }
 
-// Local storage keys
-const TASKS_STORAGE_KEY = 'kanban-tasks';
-const SWIMLANES_STORAGE_KEY = 'kanban-swimlanes';
+// The new task, and why it was not added if the blocker or WIP policy refused its lane
+export interface AddTaskResult {
+  task: Task;
+  refused: MoveRefusal | null;
+}
+
+// Where completing a checklist moved the task, or why the move was refused
+export interface ChecklistToggleResult {
+  movedTo: string | null;
+  refused: MoveRefusal | null;
+}
+
+// Tasks a bulk move skipped, and why
+export interface BulkMoveResult {
+  moved: string[];
+  blocked: string[];
+  overWipLimit: string[];
+}
+
+// One recorded step; `undo` only runs while it is still the latest step
+export interface UndoHandle {
+  label: string;
+  isLatest: () => boolean;
+  undo: () => string | null;
+  // Called whenever the history changes
+  subscribe: (listener: () => void) => () => void;
+}
+
+// A recorded board mutation: undoing it restores the snapshot taken before it ran
+interface HistoryEntry {
+  id: number;
+  label: string;
+  snapshot: BoardSnapshot;
+}
+
+interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+const MAX_HISTORY = 100;
+
+// Saving the sync replica writes the whole document, so edits in quick succession share one save
+const REPLICA_SAVE_DELAY = 1000;
+
+interface TaskProviderProps {
+  children: ReactNode;
+  // Storage backend; defaults to localStorage
+  repository?: TaskRepository;
+  // BroadcastChannel name shared by tabs showing the same board
+  syncChannel?: string;
+  // Board id on the sync server
+  boardId?: string;
+  // WebSocket sync server for multi-user editing; off when not set
+  collabUrl?: string;
+}
+
+const defaultRepository = createLocalStorageRepository();
+
+// Development builds check the board's invariants after every action
+const reducer = import.meta.env.DEV ? checkedBoardReducer : boardReducer;
 
 // Create the context
 const TaskContext = createContext<TaskContextType | undefined>(undefined);
+// Stable store for useTaskSelector; its value never changes, so it never re-renders consumers
+const TaskStoreContext = createContext<TaskStore | undefined>(undefined);
 
 // Provider component
-export const TaskProvider = ({ children }: { children: ReactNode }) => {
-  const [tasks, setTasks] = useState<TaskMap>({});
-  const [tasksByStatus, setTasksByStatus] = useState<TasksByStatus>({});
-  const [swimLanes, setSwimLanes] = useState<SwimLane[]>(DEFAULT_SWIMLANES);
+export const TaskProvider = ({
+  children,
+  repository = defaultRepository,
+  syncChannel = 'kanban-board',
+  boardId = DEFAULT_BOARD_ID,
+  collabUrl = import.meta.env.VITE_SYNC_URL,
+}: TaskProviderProps) => {
+  // Tasks, lane lists and swim lanes change together, only through boardReducer actions
+  const [board, dispatch] = useReducer(reducer, DEFAULT_SWIMLANES, createEmptyBoard);
+  const { tasks, tasksByStatus, swimLanes } = board;
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [loadError, setLoadError] = useState<Error | null>(null);
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  const [history, setHistory] = useState<HistoryState>({ past: [], future: [] });
+  const [activityLog, setActivityLog] = useState<ActivityLog>({});
+  const [settings, setSettings] = useState<BoardSettings>({});
+  const [remoteTaskUpdates, setRemoteTaskUpdates] = useState<Record<string, string>>({});
+  const [collabStatus, setCollabStatus] = useState<CollabStatus | null>(null);
+  const [collabPeers, setCollabPeers] = useState<PresencePeer[]>([]);
+  const { currentUser } = useUser();
+
+  // Refs mirror the latest rendered state so history callbacks never read stale closures
+  // (latestRef runs ahead of it during a batch, see applyAction)
+  const latestRef = useRef<BoardSnapshot>(board);
+  latestRef.current = board;
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  const nextEntryIdRef = useRef(1);
+  const historyListenersRef = useRef(new Set<() => void>());
+  const batchDepthRef = useRef(0);
+  const currentUserRef = useRef(currentUser);
+  currentUserRef.current = currentUser;
+
+  // Cross-tab sync. The base is the last state this tab shared with (or took
+  // from) the others: only what changed since is sent, and merges compare
+  // against it to tell whose change is whose.
+  const syncStateRef = useRef<BoardSyncState>({ tasks, tasksByStatus, swimLanes, activityLog, settings });
+  syncStateRef.current = { tasks, tasksByStatus, swimLanes, activityLog, settings };
+  const syncBaseRef = useRef<BoardSyncState | null>(null);
+  const channelRef = useRef<BoardChannel | null>(null);
+
+  // Multi-user sync. The document is this client's CRDT replica of the board and
+  // the base is the board it last matched; state applied from elsewhere is
+  // recorded so it isn't sent back. The replica is saved on this device, so
+  // edits made offline still reach the server after a reload.
+  const collabClientRef = useRef<{ client: CollabClient; clock: Clock; saveReplicaSoon: () => void } | null>(null);
+  const collabDocRef = useRef<BoardDoc | null>(null);
+  const collabBaseRef = useRef<BoardSnapshot | null>(null);
+  const externalStateRef = useRef<BoardSnapshot | null>(null);
+
+  const markRemoteTaskUpdates = (taskIds: string[]) => {
+    if (taskIds.length === 0) return;
+    const now = new Date().toISOString();
+    setRemoteTaskUpdates(prev => ({
+      ...prev,
+      ...Object.fromEntries(taskIds.map(id => [id, now])),
+    }));
+  };
 
-  // Initialize tasksByStatus with all swimlane IDs
+  // Load tasks and swimlanes from the repository on initial render
   useEffect(() => {
-    setTasksByStatus(prev => {
-      const newTasksByStatus = { ...prev };
-      
-      // Ensure all swimlanes have an entry, defaulting to empty array
-      swimLanes.forEach(lane => {
-        if (!newTasksByStatus[lane.id]) {
-          newTasksByStatus[lane.id] = [];
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const [rawSwimLanes, rawTasks, rawActivity, rawSettings] = await Promise.all([
+          repository.loadSwimLanes(),
+          repository.loadTasks(),
+          repository.loadActivity(),
+          repository.loadSettings(),
+        ]);
+        // Migrate and validate everything before touching state
+        const savedSwimLanes = rawSwimLanes !== null ? parseSwimLanes(rawSwimLanes) : null;
+        const savedData = rawTasks !== null ? parsePersistedTasks(rawTasks) : null;
+        const savedActivity = rawActivity !== null ? parseActivityLog(rawActivity) : null;
+        const savedSettings = rawSettings !== null ? parseBoardSettings(rawSettings) : null;
+        if (cancelled) return;
+
+        dispatch({
+          type: 'replace',
+          snapshot: {
+            ...(savedSwimLanes && { swimLanes: savedSwimLanes }),
+            ...(savedData && { tasks: savedData.tasks, tasksByStatus: savedData.tasksByStatus }),
+          },
+        });
+        if (savedActivity) {
+          setActivityLog(savedActivity);
+        }
+        if (savedSettings) {
+          setSettings(savedSettings);
+        }
+        setLoadError(null);
+      } catch (error) {
+        if (cancelled) return;
+        console.error('Failed to load board data', error);
+        setLoadError(error instanceof Error ? error : new Error(String(error)));
+      } finally {
+        if (!cancelled) {
+          setIsLoaded(true);
         }
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [repository, loadAttempt]);
+
+  // Listen for other tabs changing this board and merge their changes into ours
+  useEffect(() => {
+    if (!isLoaded || loadError) return;
+
+    const channel = openBoardChannel(syncChannel, delta => {
+      const local = syncStateRef.current;
+      const { state, base, remoteTaskIds, tookRemote } = mergeBoardDelta(syncBaseRef.current ?? local, local, delta);
+
+      if (!tookRemote) {
+        // The other tab is behind us; send it what it is missing
+        const missing = diffBoardStates(base, local);
+        if (missing) channel?.post(missing);
+        syncBaseRef.current = local;
+        return;
+      }
+
+      // Applying the merge re-renders, and the broadcast effect sends whatever local changes it kept
+      syncBaseRef.current = base;
+      dispatch({
+        type: 'replace',
+        snapshot: { tasks: state.tasks, tasksByStatus: state.tasksByStatus, swimLanes: state.swimLanes },
       });
-      
-      return newTasksByStatus;
+      setActivityLog(state.activityLog);
+      setSettings(state.settings);
+      // The other tab already sent its changes to the sync server
+      externalStateRef.current = state;
+      markRemoteTaskUpdates(remoteTaskIds);
     });
-  }, [swimLanes]);
+    channelRef.current = channel;
+
+    return () => {
+      channel?.close();
+      channelRef.current = null;
+    };
+  }, [syncChannel, isLoaded, loadError]);
 
-  // Load tasks from localStorage on initial render
+  // Share every change with the other tabs, as the difference from the last shared state
   useEffect(() => {
-    // Load swimlanes
-    const storedSwimLanes = localStorage.getItem(SWIMLANES_STORAGE_KEY);
-    if (storedSwimLanes) {
-      try {
-        const savedSwimLanes = JSON.parse(storedSwimLanes);
-        setSwimLanes(savedSwimLanes);
-      } catch (error) {
-        console.error('Failed to parse swimlanes from localStorage', error);
-      }
+    if (!isLoaded || loadError) return;
+    const state = { tasks, tasksByStatus, swimLanes, activityLog, settings };
+    const base = syncBaseRef.current;
+    syncBaseRef.current = state;
+    const delta = base && diffBoardStates(base, state);
+    if (delta) channelRef.current?.post(delta);
+  }, [tasks, tasksByStatus, swimLanes, activityLog, settings, isLoaded, loadError]);
+
+  // Turn local changes since the base into CRDT operations and send them to the sync server
+  const sendLocalChanges = useCallback((current: BoardSnapshot) => {
+    const collab = collabClientRef.current;
+    const doc = collabDocRef.current;
+    const base = collabBaseRef.current;
+    if (!collab || !doc || !base) return;
+    const ops = diffToDocOperations(doc, base, current, collab.clock);
+    if (ops.length > 0) {
+      collabDocRef.current = applyDocOperations(doc, ops);
+      collab.client.send(ops);
+      collab.saveReplicaSoon();
     }
+    collabBaseRef.current = current;
+  }, []);
 
-    // Load tasks
-    const storedTasks = localStorage.getItem(TASKS_STORAGE_KEY);
-    if (storedTasks) {
-      try {
-        const { tasks: savedTasks, tasksByStatus: savedTasksByStatus } = JSON.parse(storedTasks);
-        setTasks(savedTasks);
-        setTasksByStatus(savedTasksByStatus);
-      } catch (error) {
-        console.error('Failed to parse tasks from localStorage', error);
-      }
+  // Connect to the sync server and merge other users' operations as they arrive
+  useEffect(() => {
+    if (!collabUrl || !isLoaded || loadError) return;
+
+    const clock = createClock(uuidv4());
+    const saved = loadCollabReplica(collabUrl, boardId);
+    if (saved) {
+      // Anything this session writes must be newer than what the saved replica holds
+      docStamps(saved.doc).forEach(clock.observe);
+      saved.sync.pending.forEach(op => operationStamps(op).forEach(clock.observe));
     }
+    collabDocRef.current = saved ? saved.doc : createBoardDoc(latestRef.current);
+    collabBaseRef.current = saved ? docToSnapshot(saved.doc) : latestRef.current;
+
+    let saveTimer: ReturnType<typeof setTimeout> | undefined;
+    const saveReplica = () => {
+      clearTimeout(saveTimer);
+      saveTimer = undefined;
+      if (!collabDocRef.current) return;
+      saveCollabReplica(collabUrl, boardId, { doc: collabDocRef.current, sync: client.getSyncState() });
+    };
+    const saveReplicaSoon = () => {
+      saveTimer ??= setTimeout(saveReplica, REPLICA_SAVE_DELAY);
+    };
+
+    const client = createCollabClient({
+      url: collabUrl,
+      boardId,
+      user: currentUserRef.current || 'Anonymous',
+      resumeFrom: saved?.sync,
+      getSeedOperations: () => {
+        const ops = docToOperations(collabDocRef.current!, clock);
+        collabDocRef.current = applyDocOperations(collabDocRef.current!, ops);
+        saveReplicaSoon();
+        return ops;
+      },
+      onStatus: setCollabStatus,
+      onPresence: setCollabPeers,
+      onOperations: ops => {
+        ops.forEach(op => operationStamps(op).forEach(clock.observe));
+        collabDocRef.current = applyDocOperations(collabDocRef.current!, ops);
+        saveReplicaSoon();
+
+        // The document decides the merged board; only re-render if it differs
+        const current = latestRef.current;
+        const next = docToSnapshot(collabDocRef.current);
+        const changedTaskIds = [...new Set([...Object.keys(current.tasks), ...Object.keys(next.tasks)])]
+          .filter(id => JSON.stringify(current.tasks[id]) !== JSON.stringify(next.tasks[id]));
+        if (
+          changedTaskIds.length === 0 &&
+          JSON.stringify(current.tasksByStatus) === JSON.stringify(next.tasksByStatus) &&
+          JSON.stringify(current.swimLanes) === JSON.stringify(next.swimLanes)
+        ) {
+          return;
+        }
+        externalStateRef.current = next;
+        dispatch({ type: 'replace', snapshot: next });
+        markRemoteTaskUpdates(changedTaskIds);
+      },
+    });
+    collabClientRef.current = { client, clock, saveReplicaSoon };
+    // Edits the saved replica hasn't seen (made offline before a reload, or while sync was off)
+    sendLocalChanges(latestRef.current);
+    window.addEventListener('pagehide', saveReplica);
+
+    return () => {
+      window.removeEventListener('pagehide', saveReplica);
+      saveReplica();
+      client.close();
+      collabClientRef.current = null;
+      collabDocRef.current = null;
+      setCollabStatus(null);
+      setCollabPeers([]);
+    };
+  }, [collabUrl, boardId, isLoaded, loadError, sendLocalChanges]);
+
+  useEffect(() => {
+    const current = { tasks, tasksByStatus, swimLanes };
+    const external = externalStateRef.current;
+    const fromElsewhere = external?.tasks === tasks && external.tasksByStatus === tasksByStatus && external.swimLanes === swimLanes;
+    if (!fromElsewhere) sendLocalChanges(current);
+    else if (collabBaseRef.current) collabBaseRef.current = current;
+  }, [tasks, tasksByStatus, swimLanes, sendLocalChanges]);
+
+  // Stable so components can call it from effects
+  const setPresence = useCallback((taskId: string | null, activity: PresenceActivity | null) => {
+    collabClientRef.current?.client.setPresence(taskId, activity);
   }, []);
 
-  // Save tasks to localStorage whenever they change
+  // Save tasks whenever they change (only once the initial load has finished,
+  // and never while unreadable data is waiting to be recovered)
   useEffect(() => {
+    if (!isLoaded || loadError) return;
     if (Object.keys(tasks).length > 0 || Object.keys(tasksByStatus).length > 0) {
-      localStorage.setItem(
-        TASKS_STORAGE_KEY,
-        JSON.stringify({
-          tasks,
-          tasksByStatus,
-        })
-      );
+      repository
+        .saveTasks(toPersistedTasks(tasks, tasksByStatus))
+        .catch(error => console.error('Failed to save tasks', error));
     }
-  }, [tasks, tasksByStatus]);
+  }, [tasks, tasksByStatus, isLoaded, loadError, repository]);
+
+  // Save swimlanes whenever they change
+  useEffect(() => {
+    if (!isLoaded || loadError) return;
+    repository
+      .saveSwimLanes(toPersistedSwimLanes(swimLanes))
+      .catch(error => console.error('Failed to save swimlanes', error));
+  }, [swimLanes, isLoaded, loadError, repository]);
+
+  // Save the activity log whenever entries are appended
+  useEffect(() => {
+    if (!isLoaded || loadError) return;
+    repository
+      .saveActivity(toPersistedActivity(activityLog))
+      .catch(error => console.error('Failed to save activity log', error));
+  }, [activityLog, isLoaded, loadError, repository]);
+
+  // Save board settings whenever they change
+  useEffect(() => {
+    if (!isLoaded || loadError) return;
+    repository
+      .saveSettings(toPersistedSettings(settings))
+      .catch(error => console.error('Failed to save board settings', error));
+  }, [settings, isLoaded, loadError, repository]);
+
+  // Recovery actions offered when stored data is corrupt
+  const retryLoad = () => {
+    setIsLoaded(false);
+    setLoadAttempt(attempt => attempt + 1);
+  };
+
+  const resetBoard = () => {
+    const emptyBoard = createEmptyBoard(DEFAULT_SWIMLANES);
+    dispatch({ type: 'replace', snapshot: emptyBoard });
+    setHistory({ past: [], future: [] });
+    setActivityLog({});
+    setSettings({});
+    setLoadError(null);
+    // Overwrite the corrupt payload right away; the save effects skip empty boards
+    Promise.all([
+      repository.saveTasks(toPersistedTasks(emptyBoard.tasks, emptyBoard.tasksByStatus)),
+      repository.saveSwimLanes(toPersistedSwimLanes(DEFAULT_SWIMLANES)),
+      repository.saveActivity(toPersistedActivity({})),
+      repository.saveSettings(toPersistedSettings({})),
+    ]).catch(error => console.error('Failed to reset board data', error));
+  };
+
+  // Append entries to the per-task activity log (never rewritten, only extended)
+  const appendActivity = (entries: TaskActivity[]) => {
+    if (entries.length === 0) return;
+    setActivityLog(prev => {
+      const next = { ...prev };
+      entries.forEach(entry => {
+        next[entry.taskId] = [...(next[entry.taskId] || []), entry];
+      });
+      return next;
+    });
+  };
+
+  const getTaskActivity = useCallback((taskId: string) => activityLog[taskId] || [], [activityLog]);
+
+  // Cards read their slice of the board through this store (see useTaskSelector), so
+  // a change only re-renders the components whose slice changed. Subscribers are
+  // notified before paint; cards rendering with this change already read it.
+  const storeState = useMemo(() => ({ ...board, collabPeers }), [board, collabPeers]);
+  const storeStateRef = useRef(storeState);
+  storeStateRef.current = storeState;
+  const [store] = useState(() => createTaskStore(() => storeStateRef.current));
+  useLayoutEffect(() => {
+    store.notify();
+  }, [store, storeState]);
+
+  // One index per board. Whatever changed the tasks (edits, undo, sync, imports),
+  // only task objects that differ from the last sync are re-indexed.
+  const [searchIndex] = useState(createSearchIndex);
+  const searchTasks = useMemo(() => {
+    searchIndex.sync(tasks);
+    return (query: string) => searchIndex.search(query);
+  }, [searchIndex, tasks]);
+
+  // Record the current board before a mutation so it can be undone.
+  // Several mutations fired from the same render collapse into the first entry.
+  const recordHistory = (label: string) => {
+    if (batchDepthRef.current > 0) return;
+    const snapshot = latestRef.current;
+    const prev = historyRef.current;
+    const last = prev.past[prev.past.length - 1];
+    if (
+      last &&
+      last.snapshot.tasks === snapshot.tasks &&
+      last.snapshot.tasksByStatus === snapshot.tasksByStatus &&
+      last.snapshot.swimLanes === snapshot.swimLanes
+    ) {
+      return;
+    }
+    // Kept in the ref right away so getLatestUndo sees the step before the next render
+    const next = {
+      past: [...prev.past, { id: nextEntryIdRef.current++, label, snapshot }].slice(-MAX_HISTORY),
+      future: [],
+    };
+    historyRef.current = next;
+    setHistory(next);
+  };
+
+  const restoreSnapshot = (snapshot: BoardSnapshot, via: 'undo' | 'redo') => {
+    appendActivity(diffTaskMaps(latestRef.current.tasks, snapshot.tasks, currentUserRef.current, via));
+    dispatch({ type: 'replace', snapshot });
+  };
+
+  const replaceBoardData = (snapshot: BoardSnapshot, label: string) => {
+    recordHistory(label);
+    appendActivity(diffTaskMaps(latestRef.current.tasks, snapshot.tasks, currentUser));
+    dispatch({ type: 'replace', snapshot });
+  };
+
+  // Dispatch a board change. Inside a batch latestRef moves ahead of the render
+  // right away, so the policy checks of later steps count the earlier ones.
+  const applyAction = (action: BoardAction) => {
+    if (batchDepthRef.current > 0) latestRef.current = boardReducer(latestRef.current, action);
+    dispatch(action);
+  };
+
+  // Run several mutations as one undoable step
+  const runBatch = (label: string, mutate: () => void) => {
+    recordHistory(label);
+    batchDepthRef.current += 1;
+    try {
+      mutate();
+    } finally {
+      batchDepthRef.current -= 1;
+    }
+  };
+
+  // Undo the latest mutation; returns its label, or null if there was nothing to undo
+  const undo = () => {
+    const { past, future } = historyRef.current;
+    const entry = past[past.length - 1];
+    if (!entry) return null;
+
+    const next = {
+      past: past.slice(0, -1),
+      future: [...future, { id: nextEntryIdRef.current++, label: entry.label, snapshot: latestRef.current }],
+    };
+    historyRef.current = next;
+    setHistory(next);
+    restoreSnapshot(entry.snapshot, 'undo');
+    return entry.label;
+  };
+
+  // Re-apply the latest undone mutation; returns its label, or null if there was nothing to redo
+  const redo = () => {
+    const { past, future } = historyRef.current;
+    const entry = future[future.length - 1];
+    if (!entry) return null;
+
+    const next = {
+      past: [...past, { id: nextEntryIdRef.current++, label: entry.label, snapshot: latestRef.current }],
+      future: future.slice(0, -1),
+    };
+    historyRef.current = next;
+    setHistory(next);
+    restoreSnapshot(entry.snapshot, 'redo');
+    return entry.label;
+  };
+
+  const latestEntryId = () => historyRef.current.past[historyRef.current.past.length - 1]?.id ?? null;
+
+  const getLatestUndo = (): UndoHandle | null => {
+    const entry = historyRef.current.past[historyRef.current.past.length - 1];
+    if (!entry) return null;
+    const isLatest = () => latestEntryId() === entry.id;
+    return {
+      label: entry.label,
+      isLatest,
+      undo: () => (isLatest() ? undo() : null),
+      subscribe: listener => {
+        historyListenersRef.current.add(listener);
+        return () => historyListenersRef.current.delete(listener);
+      },
+    };
+  };
 
-  // Save swimlanes to localStorage whenever they change
   useEffect(() => {
-    localStorage.setItem(SWIMLANES_STORAGE_KEY, JSON.stringify(swimLanes));
-  }, [swimLanes]);
+    historyListenersRef.current.forEach(listener => listener());
+  }, [history]);
 
-  // Add a task
-  const addTask = (taskData: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>) => {
-    const id = uuidv4();
+  // Steps of a closed board can't be undone any more
+  useEffect(() => {
+    const listeners = historyListenersRef.current;
+    return () => {
+      historyRef.current = { past: [], future: [] };
+      listeners.forEach(listener => listener());
+    };
+  }, []);
+
+  // Add a task. Entering its lane goes through the same blocker and WIP policies as a move.
+  const addTask = (taskData: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>): AddTaskResult => {
     const now = new Date().toISOString();
-    
     const newTask: Task = {
-      id,
+      id: uuidv4(),
       ...taskData,
       createdAt: now,
       updatedAt: now,
     };
+    const refused = getMoveRefusal(newTask, newTask.status, latestRef.current, settings);
+    if (refused) return { task: newTask, refused };
 
-    // Update tasks map
-    setTasks((prev) => ({
-      ...prev,
-      [id]: newTask,
-    }));
-
-    // Update tasks by status
-    setTasksByStatus((prev) => {
-      const statusTasks = prev[newTask.status] || [];
-      return {
-        ...prev,
-        [newTask.status]: [...statusTasks, id],
-      };
-    });
+    recordHistory('Create task');
+    appendActivity([createActivity(newTask, 'created', {}, currentUser)]);
+    applyAction({ type: 'addTask', task: newTask });
+    return { task: newTask, refused: null };
+  };
 
-    return newTask;
+  const checkMove = (taskId: string, laneId: TaskStatus) => {
+    const task = latestRef.current.tasks[taskId];
+    return task ? getMoveRefusal(task, laneId, latestRef.current, settings) : null;
   };
 
-  // Update a task
+  // Update a task. A status change (e.g. edited in TaskForm) moves it to the end of its new lane,
+  // unless the blocker or WIP policy refuses it.
   const updateTask = (id: string, taskData: Partial<Task>) => {
-    setTasks((prevTasks) => {
-      const task = prevTasks[id];
-      if (!task) return prevTasks;
-
-      const updatedTask = {
-        ...task,
-        ...taskData,
-        updatedAt: new Date().toISOString(),
-      };
-
-      // If status is changing, let moveTask handle tasksByStatus updates
-      if (taskData.status && task.status !== taskData.status) {
-        // We only update the task object here.
-        // moveTask will be called separately to handle tasksByStatus
-        return {
-          ...prevTasks,
-          [id]: updatedTask,
-        };
-      }
-
-      // If status is not changing, or no status in taskData, update tasksByStatus here
-      // This part is actually not needed if moveTask is always called for status changes.
-      // For simplicity and to avoid potential conflicts, updateTask will ONLY update the task object.
-      // tasksByStatus updates due to status change will be handled by moveTask.
-      return {
-        ...prevTasks,
-        [id]: updatedTask,
-      };
-    });
+    const previousTask = latestRef.current.tasks[id];
+    if (!previousTask) return false;
+    if (taskData.status !== undefined && checkMove(id, taskData.status)) return false;
+    recordHistory('Edit task');
+
+    // Log the status transition and field diffs for the audit trail
+    const nextTask = { ...previousTask, ...taskData };
+    const entries: TaskActivity[] = [];
+    if (nextTask.status !== previousTask.status) {
+      entries.push(createActivity(nextTask, 'moved', { fromStatus: previousTask.status, toStatus: nextTask.status }, currentUser));
+    }
+    const changes = diffTaskFields(previousTask, nextTask, latestRef.current.tasks);
+    if (changes.length > 0) {
+      entries.push(createActivity(nextTask, 'updated', { changes }, currentUser));
+    }
+    appendActivity(entries);
 
-    // IMPORTANT: If taskData includes a status change,
-    // the caller is responsible for calling moveTask AFTER updateTask
-    // to correctly update tasksByStatus.
-    // For non-status updates (e.g., title change), tasksByStatus doesn't need to change.
+    applyAction({ type: 'updateTask', id, updates: taskData, now: new Date().toISOString() });
+    return true;
   };
 
-  // Delete a task
+  // Delete a task, along with any dependency links pointing at it
   const deleteTask = (id: string) => {
-    const status = tasks[id]?.status;
-    if (!status) return;
-
-    // Remove from tasks map
-    setTasks((prev) => {
-      const newTasks = { ...prev };
-      delete newTasks[id];
-      return newTasks;
-    });
-
-    // Remove from tasksByStatus
-    setTasksByStatus((prev) => {
-      const statusTasks = prev[status] || [];
-      return {
-        ...prev,
-        [status]: statusTasks.filter((taskId) => taskId !== id),
-      };
-    });
+    const task = latestRef.current.tasks[id];
+    if (!task) return;
+    recordHistory('Delete task');
+    appendActivity([createActivity(task, 'deleted', {}, currentUser)]);
+    applyAction({ type: 'deleteTask', id });
   };
 
-  // Move a task to a different status
+  // Move a task to a different status.
+  // Returns false when the blocker or WIP policy refuses the move.
   const moveTask = (taskId: string, newStatus: TaskStatus) => {
-    setTasks(prevTasks => {
-      const task = prevTasks[taskId];
-      if (!task || task.status === newStatus) {
-        // If task doesn't exist or status is already the new status, do nothing with tasks map
-        // but still ensure tasksByStatus is correct.
-        return prevTasks; 
+    const currentTask = latestRef.current.tasks[taskId];
+    if (!currentTask || currentTask.status === newStatus) return true;
+    if (checkMove(taskId, newStatus)) return false;
+
+    recordHistory('Move task');
+    appendActivity([
+      createActivity(currentTask, 'moved', { fromStatus: currentTask.status, toStatus: newStatus }, currentUser),
+    ]);
+    applyAction({ type: 'moveTask', id: taskId, status: newStatus, now: new Date().toISOString() });
+    return true;
+  };
+
+  // A status change is checked task by task, counting the tasks the batch moved before
+  const bulkUpdateTasks = (ids: string[], updates: Partial<Task>, label: string) => {
+    runBatch(label, () => ids.forEach(id => updateTask(id, updates)));
+  };
+
+  // Move tasks to a lane, honouring the same blocker and WIP policies as dragging
+  const bulkMoveTasks = (ids: string[], newStatus: TaskStatus, placeBefore?: string | null): BulkMoveResult => {
+    const current = latestRef.current;
+    const { tasks: currentTasks, tasksByStatus: currentByStatus } = current;
+    const result: BulkMoveResult = { moved: [], blocked: [], overWipLimit: [] };
+    if (!current.swimLanes.some(lane => lane.id === newStatus)) return result;
+
+    // The target lane as it fills up, so the WIP limit counts the tasks moved before
+    const targetIds = [...(currentByStatus[newStatus] || [])];
+    const projected = { ...current, tasksByStatus: { ...currentByStatus, [newStatus]: targetIds } };
+    ids.forEach(id => {
+      const task = currentTasks[id];
+      if (!task || task.status === newStatus) return;
+      const refusal = getMoveRefusal(task, newStatus, projected, settings);
+      if (refusal?.reason === 'blocked') {
+        result.blocked.push(id);
+      } else if (refusal?.reason === 'overWipLimit') {
+        result.overWipLimit.push(id);
+      } else {
+        result.moved.push(id);
+        targetIds.push(id);
       }
+    });
 
-      const oldStatus = task.status;
-
-      // Update the task's status in the main tasks map
-      const updatedTasks = {
-        ...prevTasks,
-        [taskId]: {
-          ...task,
-          status: newStatus,
-          updatedAt: new Date().toISOString(),
-        },
-      };
-
-      // Now, update tasksByStatus based on this change
-      setTasksByStatus((prevTasksByStatus) => {
-        const oldStatusTasks = prevTasksByStatus[oldStatus]?.filter((id) => id !== taskId) || [];
-        const newStatusTasks = [...(prevTasksByStatus[newStatus] || []), taskId];
-
-        // Ensure no duplicates in newStatusTasks
-        const uniqueNewStatusTasks = Array.from(new Set(newStatusTasks));
-
-        return {
-          ...prevTasksByStatus,
-          [oldStatus]: oldStatusTasks,
-          [newStatus]: uniqueNewStatusTasks,
-        };
-      });
-      
-      return updatedTasks; // Return the updated tasks map
+    // Tasks of the group that end up in the lane, in the order given
+    const placed = ids.filter(id => result.moved.includes(id) || currentTasks[id]?.status === newStatus);
+    if (result.moved.length === 0 && (placeBefore === undefined || placed.length === 0)) return result;
+
+    runBatch(result.moved.length > 0 ? `Move ${result.moved.length} tasks` : 'Reorder tasks', () => {
+      result.moved.forEach(id => moveTask(id, newStatus));
+      if (placeBefore !== undefined) {
+        applyAction({ type: 'placeTasks', status: newStatus, ids: placed, before: placeBefore });
+      }
     });
+    return result;
+  };
+
+  const bulkDeleteTasks = (ids: string[]) => {
+    runBatch(`Delete ${ids.length} tasks`, () => ids.forEach(id => deleteTask(id)));
   };
 
   // Reorder tasks within a status
   const reorderTasks = (status: TaskStatus, newOrder: string[]) => {
-    setTasksByStatus((prev) => ({
-      ...prev,
-      [status]: newOrder,
-    }));
+    recordHistory('Reorder tasks');
+    applyAction({ type: 'reorderTasks', status, order: newOrder });
   };
 
   // SwimLane functions
   const addSwimLane = (name: string) => {
-    const id = uuidv4();
+    recordHistory('Add swim lane');
     const colors = ['blue', 'purple', 'amber', 'cyan', 'green', 'indigo', 'pink', 'rose', 'orange', 'teal'];
     const randomColor = colors[Math.floor(Math.random() * colors.length)];
-    
-    const newLane: SwimLane = {
-      id,
-      name,
-      color: randomColor,
-    };
-    
-    setSwimLanes(prev => [...prev, newLane]);
-    
-    // Initialize empty task list for this lane
-    setTasksByStatus(prev => ({
-      ...prev,
-      [id]: [],
-    }));
+    applyAction({ type: 'addSwimLane', lane: { id: uuidv4(), name, color: randomColor } });
   };
   
   const updateSwimLane = (id: string, updates: Partial<SwimLane>) => {
-    setSwimLanes(prev => 
-      prev.map(lane => 
-        lane.id === id ? { ...lane, ...updates } : lane
-      )
-    );
+    recordHistory('Edit swim lane');
+    applyAction({ type: 'updateSwimLane', id, updates });
   };
   
+  // The lane's tasks move to the first remaining lane; with no lane left they are deleted
   const deleteSwimLane = (id: string) => {
-    // Get tasks in this swimlane
-    const tasksInLane = tasksByStatus[id] || [];
-    
-    if (tasksInLane.length > 0) {
-      // Move tasks to the first available lane or delete them
-      const otherLanes = swimLanes.filter(lane => lane.id !== id);
-      
-      if (otherLanes.length > 0) {
-        const targetLaneId = otherLanes[0].id;
-        
-        // Update all tasks to the new lane
-        tasksInLane.forEach(taskId => {
-          updateTask(taskId, { status: targetLaneId });
-        });
-        
-        // Update tasksByStatus
-        setTasksByStatus(prev => {
-          const newTasksByStatus = { ...prev };
-          // Remove the deleted lane
-          delete newTasksByStatus[id];
-          // Add the tasks to the target lane
-          newTasksByStatus[targetLaneId] = [
-            ...(newTasksByStatus[targetLaneId] || []),
-            ...tasksInLane
-          ];
-          return newTasksByStatus;
-        });
-      } else {
-        // Delete all tasks in the lane if no other lanes exist
-        tasksInLane.forEach(taskId => {
-          setTasks(prev => {
-            const newTasks = { ...prev };
-            delete newTasks[taskId];
-            return newTasks;
-          });
-        });
-        
-        // Remove the lane from tasksByStatus
-        setTasksByStatus(prev => {
-          const newTasksByStatus = { ...prev };
-          delete newTasksByStatus[id];
-          return newTasksByStatus;
-        });
-      }
-    } else {
-      // Just remove the lane from tasksByStatus if no tasks
-      setTasksByStatus(prev => {
-        const newTasksByStatus = { ...prev };
-        delete newTasksByStatus[id];
-        return newTasksByStatus;
-      });
-    }
-    
-    // Remove the lane from swimLanes
-    setSwimLanes(prev => prev.filter(lane => lane.id !== id));
+    const { tasks: currentTasks, tasksByStatus: currentByStatus, swimLanes: currentLanes } = latestRef.current;
+    recordHistory('Delete swim lane');
+    const target = currentLanes.find(lane => lane.id !== id);
+    const laneTasks = (currentByStatus[id] || []).map(taskId => currentTasks[taskId]).filter(Boolean);
+    appendActivity(laneTasks.map(task =>
+      target
+        ? createActivity(task, 'moved', { fromStatus: id, toStatus: target.id }, currentUser)
+        : createActivity(task, 'deleted', {}, currentUser)
+    ));
+    applyAction({ type: 'deleteSwimLane', id, now: new Date().toISOString() });
   };
   
   const reorderSwimLanes = (newOrder: string[]) => {
-    setSwimLanes(prev => {
-      const laneMap = prev.reduce((acc, lane) => {
-        acc[lane.id] = lane;
-        return acc;
-      }, {} as Record<string, SwimLane>);
-      
-      return newOrder.map(id => laneMap[id]).filter(Boolean);
+    recordHistory('Reorder swim lanes');
+    applyAction({ type: 'reorderSwimLanes', order: newOrder });
+  };
+
+  // Checklist functions. Each one goes through updateTask so the change is
+  // undoable and shows up in the task's activity log.
+  const setChecklist = (taskId: string, label: string, update: (items: ChecklistItem[]) => ChecklistItem[], extra: Partial<Task> = {}) => {
+    const task = latestRef.current.tasks[taskId];
+    if (!task) return;
+    runBatch(label, () => updateTask(taskId, { ...extra, checklist: update(task.checklist || []) }));
+  };
+
+  const addChecklistItem = (taskId: string, text: string) => {
+    setChecklist(taskId, 'Add checklist item', items => [...items, { id: uuidv4(), text, done: false }]);
+  };
+
+  const updateChecklistItem = (taskId: string, itemId: string, updates: Partial<Omit<ChecklistItem, 'id'>>) => {
+    setChecklist(taskId, 'Edit checklist item', items =>
+      items.map(item => (item.id === itemId ? { ...item, ...updates } : item))
+    );
+  };
+
+  // Toggle an item. When that completes the checklist and an auto-move lane is
+  // configured, the task moves there in the same undoable step, unless the
+  // blocker or WIP policy refuses it; the item is toggled either way.
+  const toggleChecklistItem = (taskId: string, itemId: string): ChecklistToggleResult => {
+    const task = latestRef.current.tasks[taskId];
+    if (!task) return { movedTo: null, refused: null };
+
+    const items = (task.checklist || []).map(item =>
+      item.id === itemId ? { ...item, done: !item.done } : item
+    );
+    const targetLaneId = settings.checklistDoneLaneId;
+    const moveTo =
+      targetLaneId &&
+      targetLaneId !== task.status &&
+      items.length > 0 &&
+      items.every(item => item.done) &&
+      latestRef.current.swimLanes.some(lane => lane.id === targetLaneId)
+        ? targetLaneId
+        : null;
+
+    const refused = moveTo ? checkMove(taskId, moveTo) : null;
+    const movedTo = refused ? null : moveTo;
+    setChecklist(taskId, 'Toggle checklist item', () => items, movedTo ? { status: movedTo } : {});
+    return { movedTo, refused };
+  };
+
+  const reorderChecklistItems = (taskId: string, newOrder: string[]) => {
+    setChecklist(taskId, 'Reorder checklist', items => {
+      const itemMap = new Map(items.map(item => [item.id, item]));
+      return newOrder.map(id => itemMap.get(id)).filter((item): item is ChecklistItem => !!item);
     });
   };
 
-  const value = {
-    tasks,
-    tasksByStatus,
-    swimLanes,
+  const deleteChecklistItem = (taskId: string, itemId: string) => {
+    setChecklist(taskId, 'Delete checklist item', items => items.filter(item => item.id !== itemId));
+  };
+
+  // Dependency functions. Links are stored on the blocked task only; the
+  // "blocks" side is derived by looking the other way.
+  // Returns false when the link already exists or would create a cycle.
+  const addDependency = (taskId: string, blockerId: string) => {
+    const { tasks: currentTasks } = latestRef.current;
+    const task = currentTasks[taskId];
+    if (!task || !currentTasks[blockerId]) return false;
+    if (task.blockedBy?.includes(blockerId)) return false;
+    if (wouldCreateCycle(currentTasks, taskId, blockerId)) return false;
+
+    runBatch('Add dependency', () => updateTask(taskId, { blockedBy: [...(task.blockedBy || []), blockerId] }));
+    return true;
+  };
+
+  const removeDependency = (taskId: string, blockerId: string) => {
+    const task = latestRef.current.tasks[taskId];
+    if (!task?.blockedBy?.includes(blockerId)) return;
+    runBatch('Remove dependency', () =>
+      updateTask(taskId, { blockedBy: task.blockedBy?.filter(id => id !== blockerId) })
+    );
+  };
+
+  const updateSettings = (updates: Partial<BoardSettings>) => {
+    setSettings(prev => ({ ...prev, ...updates }));
+  };
+
+  // Actions read the board through refs, so consumers get stable wrappers that
+  // call the latest implementation; the value below then only changes with the data
+  const actions = {
     addTask,
     updateTask,
     deleteTask,
     moveTask,
+    checkMove,
     reorderTasks,
+    bulkUpdateTasks,
+    bulkMoveTasks,
+    bulkDeleteTasks,
     addSwimLane,
     updateSwimLane,
     deleteSwimLane,
     reorderSwimLanes,
+    addChecklistItem,
+    updateChecklistItem,
+    toggleChecklistItem,
+    reorderChecklistItems,
+    deleteChecklistItem,
+    addDependency,
+    removeDependency,
+    updateSettings,
+    undo,
+    redo,
+    getLatestUndo,
+    runBatch,
+    replaceBoardData,
   };
-
-  return <TaskContext.Provider value={value}>{children}</TaskContext.Provider>;
+  const actionsRef = useRef(actions);
+  actionsRef.current = actions;
+  const [stableActions] = useState(() => {
+    type Action = (...args: unknown[]) => unknown;
+    const wrap = (name: keyof typeof actions) => (...args: unknown[]) => (actionsRef.current[name] as Action)(...args);
+    return Object.fromEntries(Object.keys(actions).map(name => [name, wrap(name as keyof typeof actions)])) as typeof actions;
+  });
+
+  const canUndo = history.past.length > 0;
+  const canRedo = history.future.length > 0;
+  const undoLabel = history.past[history.past.length - 1]?.label ?? null;
+  const redoLabel = history.future[history.future.length - 1]?.label ?? null;
+
+  const value = useMemo<TaskContextType>(() => ({
+    ...stableActions,
+    tasks,
+    tasksByStatus,
+    swimLanes,
+    settings,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
+    searchTasks,
+    activityLog,
+    getTaskActivity,
+    remoteTaskUpdates,
+    collabStatus,
+    collabPeers,
+    setPresence,
+  }), [
+    stableActions,
+    tasks,
+    tasksByStatus,
+    swimLanes,
+    settings,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
+    searchTasks,
+    activityLog,
+    getTaskActivity,
+    remoteTaskUpdates,
+    collabStatus,
+    collabPeers,
+    setPresence,
+  ]);
+
+  return (
+    <TaskStoreContext.Provider value={store}>
+      <TaskContext.Provider value={value}>
+        {loadError ? (
+          <DataRecoveryScreen error={loadError} onRetry={retryLoad} onReset={resetBoard} />
+        ) : (
+          children
+        )}
+      </TaskContext.Provider>
+    </TaskStoreContext.Provider>
+  );
 };
 
 // Custom hook to use the task context
@@ -352,4 +969,13 @@ export const useTaskContext = () => {
     throw new Error('useTaskContext must be used within a TaskProvider');
   }
   return context;
-};
\ No newline at end of file
+};
+
+// The board store behind useTaskSelector
+export const useTaskStore = () => {
+  const store = useContext(TaskStoreContext);
+  if (store === undefined) {
+    throw new Error('useTaskStore must be used within a TaskProvider');
+  }
+  return store;
+};
@@ -0,0 +1,40 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+
+const CURRENT_USER_STORAGE_KEY = 'kanban-current-user';
+
+interface UserContextType {
+  // Display name recorded as the actor in task activity
+  currentUser: string;
+  setCurrentUser: (name: string) => void;
+}
+
+const UserContext = createContext<UserContextType | undefined>(undefined);
+
+export function UserProvider({ children }: { children: React.ReactNode }) {
+  const [currentUser, setCurrentUser] = useState<string>(
+    () => localStorage.getItem(CURRENT_USER_STORAGE_KEY) || ''
+  );
+
+  useEffect(() => {
+    // Store the name on this device only
+    if (currentUser) {
+      localStorage.setItem(CURRENT_USER_STORAGE_KEY, currentUser);
+    } else {
+      localStorage.removeItem(CURRENT_USER_STORAGE_KEY);
+    }
+  }, [currentUser]);
+
+  return (
+    <UserContext.Provider value={{ currentUser, setCurrentUser }}>
+      {children}
+    </UserContext.Provider>
+  );
+}
+
+export function useUser() {
+  const context = useContext(UserContext);
+  if (context === undefined) {
+    throw new Error('useUser must be used within a UserProvider');
+  }
+  return context;
+}
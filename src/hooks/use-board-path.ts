@@ -0,0 +1,11 @@
+import { useParams } from 'react-router-dom';
+import { DEFAULT_BOARD_ID } from '../types/task';
+
+/**
+ * Build links inside the board named in the current URL,
+ * e.g. boardPath('/tasks') -> '/boards/<boardId>/tasks'.
+ */
+export function useBoardPath() {
+  const { boardId = DEFAULT_BOARD_ID } = useParams();
+  return (path = '') => `/boards/${boardId}${path}`;
+}
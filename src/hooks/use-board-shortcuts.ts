@@ -0,0 +1,177 @@
+import { useEffect, useRef } from 'react';
+import { recordMeasure } from '../lib/benchmark';
+
+// Cards each lane shows, left to right
+export interface BoardLaneCards {
+  laneId: string;
+  taskIds: string[];
+}
+
+interface BoardShortcutHandlers {
+  lanes: BoardLaneCards[];
+  // Ignore keys while a card is being dragged
+  disabled: boolean;
+  onOpen: (taskId: string) => void;
+  onEdit: (taskId: string) => void;
+  onMoveLane: (taskId: string, direction: -1 | 1) => void;
+  onToggleSelect: (taskId: string) => void;
+  onCreate: (laneId: string) => void;
+  onShowHelp: () => void;
+}
+
+export const BOARD_SHORTCUTS = [
+  { keys: ['↑', '↓'], description: 'Focus the card above or below' },
+  { keys: ['←', '→'], description: 'Focus a card in the lane to the left or right' },
+  { keys: ['Enter'], description: 'Open the focused card' },
+  { keys: ['e'], description: 'Edit the focused card' },
+  { keys: ['[', ']'], description: 'Move the focused card to the previous or next lane' },
+  { keys: ['x'], description: 'Select or deselect the focused card' },
+  { keys: ['n'], description: 'Create a task in the current lane' },
+  { keys: ['Space'], description: 'Pick up the focused card to drag it with the arrow keys' },
+  { keys: ['Esc'], description: 'Clear the selection' },
+  { keys: ['?'], description: 'Show these shortcuts' },
+];
+
+// Typing in a field, or a dialog/sheet is open on top of the board
+const shouldIgnore = (event: KeyboardEvent) => {
+  if (event.ctrlKey || event.metaKey || event.altKey) return true;
+  const target = event.target;
+  if (target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
+    return true;
+  }
+  return !!document.querySelector('[role="dialog"], [role="alertdialog"]');
+};
+
+// Lanes that only mount the cards near their scroll position, each able to
+// scroll one of its cards into view (false if the card isn't in that lane)
+const cardRevealers = new Set<(taskId: string) => boolean>();
+
+// Frames to wait for a card scrolled into view to render before giving up
+const REVEAL_FRAMES = 10;
+
+/** Register a windowed lane's way of scrolling a card into view, for focusTaskCard. */
+export function useTaskCardReveal(reveal: (taskId: string) => boolean) {
+  useEffect(() => {
+    cardRevealers.add(reveal);
+    return () => {
+      cardRevealers.delete(reveal);
+    };
+  }, [reveal]);
+}
+
+const findTaskCard = (taskId: string) => document.querySelector<HTMLElement>(`[data-task-id="${CSS.escape(taskId)}"]`);
+
+/**
+ * Focus a card. A card its windowed lane hasn't mounted is scrolled into view
+ * first and focused once it has rendered.
+ */
+export const focusTaskCard = (taskId: string) => {
+  const card = findTaskCard(taskId);
+  if (card) {
+    card.focus();
+    return;
+  }
+  const start = performance.now();
+  if (![...cardRevealers].some(reveal => reveal(taskId))) return;
+
+  let frames = 0;
+  const focusOnceRendered = () => {
+    const revealed = findTaskCard(taskId);
+    if (revealed) {
+      revealed.focus();
+      // Shown in the benchmark panel: how long keyboard focus waits for the lane to scroll
+      recordMeasure('reveal card', start, performance.now() - start);
+    } else if (++frames < REVEAL_FRAMES) {
+      requestAnimationFrame(focusOnceRendered);
+    }
+  };
+  requestAnimationFrame(focusOnceRendered);
+};
+
+const focusedTaskId = () =>
+  (document.activeElement as HTMLElement | null)?.closest<HTMLElement>('[data-task-id]')?.dataset.taskId ?? null;
+
+/**
+ * Keyboard model for KanbanBoard: arrow keys move focus between cards,
+ * single keys act on the focused card. Lanes without visible cards are skipped.
+ */
+export function useBoardShortcuts(handlers: BoardShortcutHandlers) {
+  // The listener is bound once and reads the latest handlers from here
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const { lanes, disabled, onOpen, onEdit, onMoveLane, onToggleSelect, onCreate, onShowHelp } = handlersRef.current;
+      if (disabled || shouldIgnore(event)) return;
+
+      if (event.key === '?') {
+        event.preventDefault();
+        onShowHelp();
+        return;
+      }
+
+      const taskId = focusedTaskId();
+      const laneIndex = taskId ? lanes.findIndex(lane => lane.taskIds.includes(taskId)) : -1;
+      const lane = lanes[laneIndex];
+      const cardIndex = lane && taskId ? lane.taskIds.indexOf(taskId) : -1;
+
+      if (event.key === 'n') {
+        event.preventDefault();
+        const target = lane ?? lanes[0];
+        if (target) onCreate(target.laneId);
+        return;
+      }
+
+      if (event.key.startsWith('Arrow')) {
+        event.preventDefault();
+        // Nothing focused yet: start at the first card on the board
+        if (!lane) {
+          const first = lanes.find(l => l.taskIds.length > 0);
+          if (first) focusTaskCard(first.taskIds[0]);
+          return;
+        }
+        if (event.key === 'ArrowUp' || event.key === 'ArrowDown') {
+          const next = lane.taskIds[cardIndex + (event.key === 'ArrowUp' ? -1 : 1)];
+          if (next) focusTaskCard(next);
+          return;
+        }
+        const step = event.key === 'ArrowLeft' ? -1 : 1;
+        for (let i = laneIndex + step; i >= 0 && i < lanes.length; i += step) {
+          const ids = lanes[i].taskIds;
+          if (ids.length > 0) {
+            focusTaskCard(ids[Math.min(cardIndex, ids.length - 1)]);
+            return;
+          }
+        }
+        return;
+      }
+
+      if (!taskId) return;
+      switch (event.key) {
+        case 'Enter':
+          event.preventDefault();
+          onOpen(taskId);
+          break;
+        case 'e':
+          event.preventDefault();
+          onEdit(taskId);
+          break;
+        case '[':
+        case ']':
+          event.preventDefault();
+          onMoveLane(taskId, event.key === '[' ? -1 : 1);
+          break;
+        case 'x':
+          event.preventDefault();
+          onToggleSelect(taskId);
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+}
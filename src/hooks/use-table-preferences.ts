@@ -0,0 +1,54 @@
+import { useState } from 'react';
+import { useUser } from '../context/UserContext';
+import { DEFAULT_TABLE_PREFERENCES, TablePreferences } from '../lib/taskTable';
+
+const storageKey = (user: string) => `kanban-table-preferences:${user || 'default'}`;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Falls back to the defaults for anything missing or malformed
+const loadPreferences = (user: string): TablePreferences => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(user)) || 'null');
+    if (!stored || typeof stored !== 'object') return DEFAULT_TABLE_PREFERENCES;
+    return {
+      order: isStringArray(stored.order) ? stored.order : DEFAULT_TABLE_PREFERENCES.order,
+      hidden: isStringArray(stored.hidden) ? stored.hidden : DEFAULT_TABLE_PREFERENCES.hidden,
+      sorts: Array.isArray(stored.sorts)
+        ? stored.sorts.filter(
+            (sort: { columnId?: unknown; direction?: unknown }) =>
+              typeof sort?.columnId === 'string' && (sort.direction === 'asc' || sort.direction === 'desc')
+          )
+        : DEFAULT_TABLE_PREFERENCES.sorts,
+    };
+  } catch {
+    return DEFAULT_TABLE_PREFERENCES;
+  }
+};
+
+/** TasksPage column order, visibility and sort, kept per user on this device. */
+export function useTablePreferences() {
+  const { currentUser } = useUser();
+  const [preferences, setPreferences] = useState(() => loadPreferences(currentUser));
+  const [loadedUser, setLoadedUser] = useState(currentUser);
+
+  // Switching user in Settings loads that user's layout
+  if (loadedUser !== currentUser) {
+    setLoadedUser(currentUser);
+    setPreferences(loadPreferences(currentUser));
+  }
+
+  const updatePreferences = (updates: Partial<TablePreferences>) => {
+    const next = { ...preferences, ...updates };
+    localStorage.setItem(storageKey(currentUser), JSON.stringify(next));
+    setPreferences(next);
+  };
+
+  const resetPreferences = () => {
+    localStorage.removeItem(storageKey(currentUser));
+    setPreferences(DEFAULT_TABLE_PREFERENCES);
+  };
+
+  return { preferences, updatePreferences, resetPreferences };
+}
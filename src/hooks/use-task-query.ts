@@ -0,0 +1,35 @@
+import { useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useTaskContext } from '../context/TaskContext';
+import { useUser } from '../context/UserContext';
+import { compileQuery } from '../lib/query';
+
+/**
+ * The task query in the URL (?q=...), compiled against the current board.
+ * Shared by the board and the task list so a filter survives switching views.
+ */
+export function useTaskQuery() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { tasks, swimLanes, searchTasks } = useTaskContext();
+  const { currentUser } = useUser();
+  const query = searchParams.get('q') ?? '';
+
+  const setQuery = (value: string) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (value) {
+        next.set('q', value);
+      } else {
+        next.delete('q');
+      }
+      return next;
+    }, { replace: true });
+  };
+
+  const compiled = useMemo(
+    () => compileQuery(query, { tasks, swimLanes, currentUser, searchTasks }),
+    [query, tasks, swimLanes, currentUser, searchTasks]
+  );
+
+  return { query, setQuery, compiled };
+}
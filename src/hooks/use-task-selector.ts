@@ -0,0 +1,26 @@
+import { useCallback, useRef, useSyncExternalStore } from 'react';
+import { useTaskStore } from '../context/TaskContext';
+import { TaskStoreState } from '../lib/taskStore';
+
+/**
+ * Subscribe to one slice of the board. Unlike useTaskContext, the component
+ * only re-renders when `isEqual` says the selected value changed.
+ */
+export function useTaskSelector<T>(
+  selector: (state: TaskStoreState) => T,
+  isEqual: (a: T, b: T) => boolean = Object.is
+): T {
+  const store = useTaskStore();
+  // Last selection, returned again while equal so useSyncExternalStore sees a stable value
+  const selectedRef = useRef<{ value: T } | null>(null);
+
+  const getSelection = useCallback(() => {
+    const next = selector(store.getState());
+    const previous = selectedRef.current;
+    if (previous && isEqual(previous.value, next)) return previous.value;
+    selectedRef.current = { value: next };
+    return next;
+  }, [store, selector, isEqual]);
+
+  return useSyncExternalStore(store.subscribe, getSelection);
+}
@@ -0,0 +1,30 @@
+import { useEffect } from 'react';
+import { toast } from 'react-hot-toast';
+import { useTaskContext } from '../context/TaskContext';
+
+// Don't hijack Ctrl+Z while the user is typing in a field
+const isEditableTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+/** Bind Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) to the board history. */
+export function useUndoRedoShortcuts() {
+  const { undo, redo } = useTaskContext();
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+      if (isEditableTarget(event.target)) return;
+
+      event.preventDefault();
+      const label = event.shiftKey ? redo() : undo();
+      if (label) {
+        toast(`${event.shiftKey ? 'Redone' : 'Undone'}: ${label}`, { id: 'history' });
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+}
@@ -0,0 +1,156 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// Lists shorter than this render every item
+export const VIRTUALIZE_THRESHOLD = 60;
+
+interface VirtualListOptions {
+  keys: string[];
+  // Height used for items that haven't been measured yet
+  estimateSize: number;
+  // Space between items, in px
+  gap?: number;
+  // Items rendered beyond each edge of the viewport
+  overscan?: number;
+}
+
+export interface VirtualItem {
+  key: string;
+  index: number;
+}
+
+export interface VirtualList {
+  // Whether the list is windowed at all (see VIRTUALIZE_THRESHOLD)
+  isVirtual: boolean;
+  items: VirtualItem[];
+  // Space standing in for the items before and after the window
+  paddingBefore: number;
+  paddingAfter: number;
+  // Attach to the element that scrolls
+  scrollRef: (element: HTMLElement | null) => void;
+  // Attach to each rendered item, together with data-virtual-key={key}
+  measureRef: (element: HTMLElement | null) => (() => void) | undefined;
+  // Scroll an item outside the window into view, so it mounts; false if the
+  // list isn't windowed or has no such item
+  scrollToKey: (key: string) => boolean;
+}
+
+// First index whose item ends below `offset`
+const findStart = (ends: number[], offset: number) => {
+  let low = 0;
+  let high = ends.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (ends[mid] <= offset) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+/**
+ * Windowed rendering for long lists of variable height: only the items near
+ * the scroll position are mounted, spacer padding keeps the scrollbar true to
+ * the full list. Heights are measured as items render and remembered by key.
+ */
+export function useVirtualList({ keys, estimateSize, gap = 0, overscan = 6 }: VirtualListOptions): VirtualList {
+  const isVirtual = keys.length >= VIRTUALIZE_THRESHOLD;
+  const [scrollElement, setScrollElement] = useState<HTMLElement | null>(null);
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+  const sizesRef = useRef(new Map<string, number>());
+  // Bumped when a measured height changes, to recompute the window
+  const [, setMeasureVersion] = useState(0);
+  const observerRef = useRef<ResizeObserver | null>(null);
+  // Where each item ends as of the last render, for scrollToKey
+  const layoutRef = useRef<{ keys: string[]; ends: number[] }>({ keys: [], ends: [] });
+
+  useEffect(() => {
+    if (!scrollElement || !isVirtual) return;
+    const update = () => setViewport({ scrollTop: scrollElement.scrollTop, height: scrollElement.clientHeight });
+    update();
+    scrollElement.addEventListener('scroll', update, { passive: true });
+    const observer = new ResizeObserver(update);
+    observer.observe(scrollElement);
+    return () => {
+      scrollElement.removeEventListener('scroll', update);
+      observer.disconnect();
+    };
+  }, [scrollElement, isVirtual]);
+
+  // Created on first use: item refs attach before effects run
+  const getObserver = useCallback(() => {
+    observerRef.current ??= new ResizeObserver(entries => {
+      let changed = false;
+      entries.forEach(entry => {
+        const element = entry.target as HTMLElement;
+        const key = element.dataset.virtualKey;
+        const height = element.offsetHeight;
+        if (key && height > 0 && sizesRef.current.get(key) !== height) {
+          sizesRef.current.set(key, height);
+          changed = true;
+        }
+      });
+      if (changed) setMeasureVersion(version => version + 1);
+    });
+    return observerRef.current;
+  }, []);
+
+  useEffect(() => () => {
+    observerRef.current?.disconnect();
+    observerRef.current = null;
+  }, []);
+
+  const measureRef = useCallback((element: HTMLElement | null) => {
+    if (!element) return;
+    const observer = getObserver();
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  }, [getObserver]);
+
+  const scrollToKey = useCallback((key: string) => {
+    const { keys: laidOutKeys, ends } = layoutRef.current;
+    const index = laidOutKeys.indexOf(key);
+    if (!scrollElement || index === -1) return false;
+    const start = index === 0 ? 0 : ends[index - 1] + gap;
+    // Centred in the viewport, as far as the list allows
+    scrollElement.scrollTop = Math.max(0, start - (scrollElement.clientHeight - (ends[index] - start)) / 2);
+    setViewport({ scrollTop: scrollElement.scrollTop, height: scrollElement.clientHeight });
+    return true;
+  }, [scrollElement, gap]);
+
+  if (!isVirtual) {
+    layoutRef.current = { keys: [], ends: [] };
+    return {
+      isVirtual,
+      items: keys.map((key, index) => ({ key, index })),
+      paddingBefore: 0,
+      paddingAfter: 0,
+      scrollRef: setScrollElement,
+      measureRef: () => undefined,
+      scrollToKey,
+    };
+  }
+
+  // Where each item ends, gap included
+  const ends: number[] = [];
+  let total = 0;
+  keys.forEach((key, index) => {
+    total += (sizesRef.current.get(key) ?? estimateSize) + (index > 0 ? gap : 0);
+    ends.push(total);
+  });
+  layoutRef.current = { keys, ends };
+
+  // Before the first measurement, assume a viewport of a few items
+  const height = viewport.height || estimateSize * 10;
+  const first = Math.max(0, findStart(ends, viewport.scrollTop) - overscan);
+  const last = Math.min(keys.length - 1, findStart(ends, viewport.scrollTop + height) + overscan);
+  const startOf = (index: number) => (index === 0 ? 0 : ends[index - 1] + gap);
+
+  return {
+    isVirtual,
+    items: keys.slice(first, last + 1).map((key, offset) => ({ key, index: first + offset })),
+    paddingBefore: startOf(first),
+    paddingAfter: total - ends[last],
+    scrollRef: setScrollElement,
+    measureRef,
+    scrollToKey,
+  };
+}
@@ -0,0 +1,141 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ChecklistItem, Task, TaskActivity, TaskFieldChange, TaskMap } from '../types/task';
+
+// Fields whose edits are recorded as diffs; status changes are logged as moves
+export const TRACKED_TASK_FIELDS: (keyof Task)[] = [
+  'title',
+  'description',
+  'priority',
+  'label',
+  'assignee',
+  'creator',
+  'desiredDate',
+  'actualDeliveryDate',
+  'checklist',
+  'blockedBy',
+];
+
+export const TASK_FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  priority: 'Priority',
+  label: 'Label',
+  assignee: 'Assignee',
+  creator: 'Creator',
+  desiredDate: 'Desired date',
+  actualDeliveryDate: 'Delivery date',
+  checklist: 'Checklist',
+  blockedBy: 'Blocked by',
+};
+
+const toLogValue = (value: unknown): string | number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  return typeof value === 'number' ? value : String(value);
+};
+
+const checklistLine = (item: ChecklistItem) => `[${item.done ? 'x' : ' '}] ${item.text}`;
+
+// One change per item added, removed, renamed or (un)checked, plus one if the remaining items were reordered
+const diffChecklist = (before: ChecklistItem[] = [], after: ChecklistItem[] = []): TaskFieldChange[] => {
+  const change = (from: string | null, to: string | null): TaskFieldChange => ({ field: 'checklist', from, to });
+  const previous = new Map(before.map(item => [item.id, item]));
+  const next = new Map(after.map(item => [item.id, item]));
+  const changes: TaskFieldChange[] = [];
+
+  before.forEach(item => {
+    if (!next.has(item.id)) changes.push(change(item.text, null));
+  });
+  after.forEach(item => {
+    const old = previous.get(item.id);
+    if (!old) {
+      changes.push(change(null, item.text));
+      return;
+    }
+    if (old.text !== item.text) changes.push(change(old.text, item.text));
+    if (old.done !== item.done) changes.push(change(checklistLine({ ...old, text: item.text }), checklistLine(item)));
+  });
+
+  // Both orders use the current texts, so a rename doesn't read as a move
+  const kept = after.filter(item => previous.has(item.id));
+  const keptBefore = before.filter(item => next.has(item.id)).map(item => next.get(item.id)!);
+  if (kept.some((item, index) => item.id !== keptBefore[index].id)) {
+    changes.push(change(keptBefore.map(item => item.text).join(', '), kept.map(item => item.text).join(', ')));
+  }
+  return changes;
+};
+
+// One change per blocker added or removed, by title (the id if the task is gone)
+const diffBlockers = (before: string[] = [], after: string[] = [], tasks: TaskMap): TaskFieldChange[] => {
+  const title = (id: string) => tasks[id]?.title ?? id;
+  return [
+    ...before.filter(id => !after.includes(id)).map(id => ({ field: 'blockedBy', from: title(id), to: null })),
+    ...after.filter(id => !before.includes(id)).map(id => ({ field: 'blockedBy', from: null, to: title(id) })),
+  ];
+};
+
+/**
+ * Field-level differences between two versions of a task. Checklist and
+ * blocker lists are diffed item by item; `tasks` is used to name blockers.
+ */
+export function diffTaskFields(before: Task, after: Task, tasks: TaskMap = {}): TaskFieldChange[] {
+  return TRACKED_TASK_FIELDS.flatMap(field => {
+    if (field === 'checklist') return diffChecklist(before.checklist, after.checklist);
+    if (field === 'blockedBy') return diffBlockers(before.blockedBy, after.blockedBy, tasks);
+    const from = toLogValue(before[field]);
+    const to = toLogValue(after[field]);
+    return from === to ? [] : [{ field, from, to }];
+  });
+}
+
+export function createActivity(
+  task: Task,
+  type: TaskActivity['type'],
+  details: Partial<Pick<TaskActivity, 'fromStatus' | 'toStatus' | 'changes' | 'via'>> = {},
+  actor?: string
+): TaskActivity {
+  return {
+    id: uuidv4(),
+    taskId: task.id,
+    taskTitle: task.title,
+    type,
+    timestamp: new Date().toISOString(),
+    actor: actor || undefined,
+    ...details,
+  };
+}
+
+/**
+ * Activity entries describing how the tasks map changed between two states.
+ * Used when a whole snapshot is swapped in (undo/redo) rather than a single action.
+ */
+export function diffTaskMaps(
+  before: TaskMap,
+  after: TaskMap,
+  actor?: string,
+  via?: TaskActivity['via']
+): TaskActivity[] {
+  const entries: TaskActivity[] = [];
+
+  Object.values(after).forEach(task => {
+    const previous = before[task.id];
+    if (!previous) {
+      entries.push(createActivity(task, 'created', { via }, actor));
+      return;
+    }
+    if (previous.status !== task.status) {
+      entries.push(createActivity(task, 'moved', { fromStatus: previous.status, toStatus: task.status, via }, actor));
+    }
+    const changes = diffTaskFields(previous, task, { ...before, ...after });
+    if (changes.length > 0) {
+      entries.push(createActivity(task, 'updated', { changes, via }, actor));
+    }
+  });
+
+  Object.values(before).forEach(task => {
+    if (!after[task.id]) {
+      entries.push(createActivity(task, 'deleted', { via }, actor));
+    }
+  });
+
+  return entries;
+}
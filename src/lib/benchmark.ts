@@ -0,0 +1,118 @@
+import { BoardSnapshot, DEFAULT_SWIMLANES, Priority, Task, TaskMap, TasksByStatus } from '../types/task';
+
+export interface LargeBoardOptions {
+  taskCount: number;
+  // Same seed, same board, so runs can be compared
+  seed?: number;
+}
+
+const WORDS = [
+  'login', 'payment', 'search', 'export', 'report', 'dashboard', 'invoice', 'upload', 'profile', 'billing',
+  'cache', 'sync', 'mobile', 'layout', 'api', 'timeout', 'email', 'filter', 'onboarding', 'settings',
+];
+const VERBS = ['Fix', 'Add', 'Refactor', 'Document', 'Test', 'Speed up', 'Redesign', 'Investigate'];
+const LABELS = ['', 'bug', 'feature', 'chore', 'design', 'infra'];
+const PEOPLE = ['', 'Alice', 'Bob', 'Carla', 'Dmitri', 'Eun-ji', 'Farah'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Small deterministic PRNG (mulberry32)
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/**
+ * Board with `taskCount` generated tasks spread over the default swim lanes,
+ * for measuring how the board and the tasks table cope with large data.
+ */
+export function generateLargeBoard({ taskCount, seed = 1 }: LargeBoardOptions): BoardSnapshot {
+  const random = createRandom(seed);
+  const pick = <T,>(items: T[]) => items[Math.floor(random() * items.length)];
+  const now = Date.now();
+
+  const swimLanes = DEFAULT_SWIMLANES.map(lane => ({ ...lane }));
+  const tasks: TaskMap = {};
+  const tasksByStatus: TasksByStatus = Object.fromEntries(swimLanes.map(lane => [lane.id, [] as string[]]));
+
+  for (let i = 0; i < taskCount; i++) {
+    const id = `bench-${i}`;
+    const createdAt = new Date(now - Math.floor(random() * 180) * DAY_MS).toISOString();
+    const status = pick(swimLanes).id;
+    const task: Task = {
+      id,
+      title: `${pick(VERBS)} ${pick(WORDS)} ${pick(WORDS)} #${i + 1}`,
+      description: random() < 0.6 ? `Generated task about ${pick(WORDS)} and ${pick(WORDS)}.` : '',
+      priority: pick<Priority>([1, 2, 3]),
+      desiredDate: random() < 0.7 ? new Date(now + Math.floor(random() * 90 - 30) * DAY_MS).toISOString().slice(0, 10) : '',
+      label: pick(LABELS),
+      status,
+      assignee: pick(PEOPLE) || undefined,
+      creator: pick(PEOPLE) || undefined,
+      createdAt,
+      updatedAt: createdAt,
+    };
+    tasks[id] = task;
+    tasksByStatus[status].push(id);
+  }
+
+  return { tasks, tasksByStatus, swimLanes };
+}
+
+// Prefix of every performance measure recorded here, so they are easy to find in DevTools
+const MEASURE_PREFIX = 'kanban:';
+
+/**
+ * Time from now until the browser has painted the resulting frame, recorded as a
+ * performance measure named `kanban:<name>`. Call it right before a state change
+ * (drag start, drop) to see what the user waits for.
+ */
+export function measureUntilPaint(name: string) {
+  const start = performance.now();
+  // The second frame callback runs after the first frame with the change was painted
+  requestAnimationFrame(() => {
+    requestAnimationFrame(() => {
+      performance.measure(MEASURE_PREFIX + name, { start, end: performance.now() });
+    });
+  });
+}
+
+/** Record a duration that was measured elsewhere, e.g. by a React Profiler. */
+export function recordMeasure(name: string, start: number, duration: number) {
+  performance.measure(MEASURE_PREFIX + name, { start, duration });
+}
+
+export interface LatencyStats {
+  name: string;
+  count: number;
+  average: number;
+  p95: number;
+  max: number;
+}
+
+export function readLatencyStats(): LatencyStats[] {
+  const byName = new Map<string, number[]>();
+  performance.getEntriesByType('measure').forEach(entry => {
+    if (!entry.name.startsWith(MEASURE_PREFIX)) return;
+    const name = entry.name.slice(MEASURE_PREFIX.length);
+    byName.set(name, [...(byName.get(name) ?? []), entry.duration]);
+  });
+  return [...byName.entries()].map(([name, durations]) => {
+    const sorted = [...durations].sort((a, b) => a - b);
+    return {
+      name,
+      count: sorted.length,
+      average: sorted.reduce((sum, duration) => sum + duration, 0) / sorted.length,
+      p95: sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))],
+      max: sorted[sorted.length - 1],
+    };
+  });
+}
+
+export function clearLatencyStats() {
+  performance.getEntriesByType('measure').forEach(entry => {
+    if (entry.name.startsWith(MEASURE_PREFIX)) performance.clearMeasures(entry.name);
+  });
+}
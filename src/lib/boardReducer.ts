@@ -0,0 +1,205 @@
+import { BoardSnapshot, SwimLane, Task, TaskMap, TaskStatus, TasksByStatus } from '../types/task';
+
+// Every change to tasks, lane lists and swim lanes goes through one of these
+export type BoardAction =
+  // Load, undo/redo, imports and state merged from other tabs or users
+  | { type: 'replace'; snapshot: Partial<BoardSnapshot> }
+  | { type: 'addTask'; task: Task }
+  // A status change moves the task to the end of its new lane
+  | { type: 'updateTask'; id: string; updates: Partial<Task>; now: string }
+  | { type: 'deleteTask'; id: string }
+  | { type: 'moveTask'; id: string; status: TaskStatus; now: string }
+  | { type: 'reorderTasks'; status: TaskStatus; order: string[] }
+  // Group `ids` in the given order before `before` (null: at the end of the lane)
+  | { type: 'placeTasks'; status: TaskStatus; ids: string[]; before: string | null }
+  | { type: 'addSwimLane'; lane: SwimLane }
+  | { type: 'updateSwimLane'; id: string; updates: Partial<SwimLane> }
+  // Its tasks move to the first remaining lane, or are deleted with the last lane
+  | { type: 'deleteSwimLane'; id: string; now: string }
+  | { type: 'reorderSwimLanes'; order: string[] };
+
+const withoutId = (ids: string[] | undefined, id: string) => (ids || []).filter(taskId => taskId !== id);
+
+// Take a task out of its old lane list and append it to the new one
+const relist = (tasksByStatus: TasksByStatus, id: string, from: TaskStatus, to: TaskStatus): TasksByStatus => ({
+  ...tasksByStatus,
+  [from]: withoutId(tasksByStatus[from], id),
+  [to]: [...withoutId(tasksByStatus[to], id), id],
+});
+
+// Drop tasks and any dependency links pointing at them
+const removeTasks = (tasks: TaskMap, ids: string[]): TaskMap => {
+  const removed = new Set(ids);
+  const next: TaskMap = {};
+  Object.values(tasks).forEach(task => {
+    if (removed.has(task.id)) return;
+    next[task.id] = task.blockedBy?.some(id => removed.has(id))
+      ? { ...task, blockedBy: task.blockedBy.filter(id => !removed.has(id)) }
+      : task;
+  });
+  return next;
+};
+
+function applyAction(state: BoardSnapshot, action: BoardAction): BoardSnapshot {
+  const { tasks, tasksByStatus, swimLanes } = state;
+
+  switch (action.type) {
+    case 'replace':
+      return { ...state, ...action.snapshot };
+
+    case 'addTask': {
+      const { task } = action;
+      return {
+        ...state,
+        tasks: { ...tasks, [task.id]: task },
+        tasksByStatus: { ...tasksByStatus, [task.status]: [...withoutId(tasksByStatus[task.status], task.id), task.id] },
+      };
+    }
+
+    case 'updateTask': {
+      const task = tasks[action.id];
+      if (!task) return state;
+      const updated = { ...task, ...action.updates, updatedAt: action.now };
+      return {
+        ...state,
+        tasks: { ...tasks, [task.id]: updated },
+        tasksByStatus: updated.status !== task.status ? relist(tasksByStatus, task.id, task.status, updated.status) : tasksByStatus,
+      };
+    }
+
+    case 'deleteTask': {
+      const task = tasks[action.id];
+      if (!task) return state;
+      return {
+        ...state,
+        tasks: removeTasks(tasks, [task.id]),
+        tasksByStatus: { ...tasksByStatus, [task.status]: withoutId(tasksByStatus[task.status], task.id) },
+      };
+    }
+
+    case 'moveTask': {
+      const task = tasks[action.id];
+      if (!task || task.status === action.status) return state;
+      return {
+        ...state,
+        tasks: { ...tasks, [task.id]: { ...task, status: action.status, updatedAt: action.now } },
+        tasksByStatus: relist(tasksByStatus, task.id, task.status, action.status),
+      };
+    }
+
+    case 'reorderTasks': {
+      // Only ids that belong to the lane; anything left out keeps its place at the end
+      const listed = new Set(action.order.filter(id => tasks[id]?.status === action.status));
+      const missing = (tasksByStatus[action.status] || []).filter(id => !listed.has(id));
+      return { ...state, tasksByStatus: { ...tasksByStatus, [action.status]: [...listed, ...missing] } };
+    }
+
+    case 'placeTasks': {
+      const placed = [...new Set(action.ids.filter(id => tasks[id]?.status === action.status))];
+      if (placed.length === 0) return state;
+      const placedIds = new Set(placed);
+      const rest = (tasksByStatus[action.status] || []).filter(id => !placedIds.has(id));
+      const index = action.before === null ? -1 : rest.indexOf(action.before);
+      const at = index === -1 ? rest.length : index;
+      return {
+        ...state,
+        tasksByStatus: { ...tasksByStatus, [action.status]: [...rest.slice(0, at), ...placed, ...rest.slice(at)] },
+      };
+    }
+
+    case 'addSwimLane':
+      return {
+        ...state,
+        swimLanes: [...swimLanes, action.lane],
+        tasksByStatus: { ...tasksByStatus, [action.lane.id]: [] },
+      };
+
+    case 'updateSwimLane':
+      return {
+        ...state,
+        swimLanes: swimLanes.map(lane => (lane.id === action.id ? { ...lane, ...action.updates, id: lane.id } : lane)),
+      };
+
+    case 'deleteSwimLane': {
+      const laneTaskIds = (tasksByStatus[action.id] || []).filter(id => tasks[id]);
+      const remainingLanes = swimLanes.filter(lane => lane.id !== action.id);
+      const nextByStatus = { ...tasksByStatus };
+      delete nextByStatus[action.id];
+
+      const target = remainingLanes[0];
+      if (!target) {
+        return { tasks: removeTasks(tasks, laneTaskIds), tasksByStatus: nextByStatus, swimLanes: remainingLanes };
+      }
+      const nextTasks = { ...tasks };
+      laneTaskIds.forEach(id => {
+        nextTasks[id] = { ...tasks[id], status: target.id, updatedAt: action.now };
+      });
+      nextByStatus[target.id] = [...(nextByStatus[target.id] || []), ...laneTaskIds];
+      return { tasks: nextTasks, tasksByStatus: nextByStatus, swimLanes: remainingLanes };
+    }
+
+    case 'reorderSwimLanes': {
+      const laneMap = new Map(swimLanes.map(lane => [lane.id, lane]));
+      const ordered = action.order.map(id => laneMap.get(id)).filter((lane): lane is SwimLane => !!lane);
+      // Lanes missing from the new order stay, after the ordered ones
+      const rest = swimLanes.filter(lane => !action.order.includes(lane.id));
+      return { ...state, swimLanes: [...ordered, ...rest] };
+    }
+  }
+}
+
+// Every swim lane has a (possibly empty) task list
+const withLaneLists = (state: BoardSnapshot): BoardSnapshot => {
+  const missing = state.swimLanes.filter(lane => !state.tasksByStatus[lane.id]);
+  if (missing.length === 0) return state;
+  return {
+    ...state,
+    tasksByStatus: { ...state.tasksByStatus, ...Object.fromEntries(missing.map(lane => [lane.id, [] as string[]])) },
+  };
+};
+
+// A board with the given lanes and no tasks
+export const createEmptyBoard = (swimLanes: SwimLane[]): BoardSnapshot =>
+  withLaneLists({ tasks: {}, tasksByStatus: {}, swimLanes });
+
+export function boardReducer(state: BoardSnapshot, action: BoardAction): BoardSnapshot {
+  return withLaneLists(applyAction(state, action));
+}
+
+/**
+ * Ways the board breaks its invariant: every task id sits in exactly one lane
+ * list, the one matching task.status, and every listed id is a task.
+ */
+export function findBoardProblems({ tasks, tasksByStatus }: BoardSnapshot): string[] {
+  const problems: string[] = [];
+  const listedIn = new Map<string, string>();
+
+  Object.entries(tasksByStatus).forEach(([status, ids]) => {
+    ids.forEach(id => {
+      const task = tasks[id];
+      if (!task) {
+        problems.push(`tasksByStatus.${status}: "${id}" is not a task`);
+      } else if (listedIn.has(id)) {
+        problems.push(`Task "${id}" is listed in both ${listedIn.get(id)} and ${status}`);
+      } else if (task.status !== status) {
+        problems.push(`Task "${id}" has status ${task.status} but is listed in ${status}`);
+      }
+      listedIn.set(id, status);
+    });
+  });
+
+  Object.keys(tasks).forEach(id => {
+    if (!listedIn.has(id)) problems.push(`Task "${id}" is not listed in any lane`);
+  });
+  return problems;
+}
+
+/** boardReducer that reports any action leaving the board inconsistent (used in development). */
+export function checkedBoardReducer(state: BoardSnapshot, action: BoardAction): BoardSnapshot {
+  const next = boardReducer(state, action);
+  if (next !== state) {
+    const problems = findBoardProblems(next);
+    if (problems.length > 0) console.error(`Board invariants broken after "${action.type}"`, problems, action);
+  }
+  return next;
+}
@@ -0,0 +1,298 @@
+import { z } from 'zod';
+import { ActivityLog, Board, BoardSettings, SwimLane, TaskMap, TasksByStatus } from '../types/task';
+import { reconcileTasksByStatus } from './tasksByStatus';
+
+// Bump this and append a migration below whenever the persisted shape changes
+export const CURRENT_SCHEMA_VERSION = 1;
+
+// The same for the other persisted documents, each versioned on its own.
+// Version 0 is the bare value they were stored as before they had a version.
+export const SWIM_LANES_VERSION = 1;
+export const ACTIVITY_VERSION = 1;
+export const SETTINGS_VERSION = 1;
+export const BOARDS_VERSION = 1;
+
+export const taskSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string(),
+  priority: z.union([z.literal(1), z.literal(2), z.literal(3)]),
+  // Boards saved while clearing the date dropped the key
+  desiredDate: z.string().default(''),
+  actualDeliveryDate: z.string().optional(),
+  label: z.string(),
+  status: z.string(),
+  assignee: z.string().optional(),
+  creator: z.string().optional(),
+  checklist: z.array(z.object({ id: z.string(), text: z.string(), done: z.boolean() })).optional(),
+  blockedBy: z.array(z.string()).optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const swimLaneSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  color: z.string(),
+  wipLimit: z.number().int().positive().optional(),
+  wipPolicy: z.enum(['warn', 'block']).optional(),
+});
+
+export const persistedTasksSchema = z.object({
+  version: z.literal(CURRENT_SCHEMA_VERSION),
+  tasks: z.record(taskSchema),
+  tasksByStatus: z.record(z.array(z.string())),
+});
+
+export const swimLanesSchema = z.array(swimLaneSchema);
+
+const logValueSchema = z.union([z.string(), z.number(), z.null()]);
+
+export const taskActivitySchema = z.object({
+  id: z.string(),
+  taskId: z.string(),
+  taskTitle: z.string(),
+  type: z.enum(['created', 'updated', 'moved', 'deleted']),
+  timestamp: z.string(),
+  actor: z.string().optional(),
+  fromStatus: z.string().optional(),
+  toStatus: z.string().optional(),
+  changes: z.array(z.object({ field: z.string(), from: logValueSchema, to: logValueSchema })).optional(),
+  via: z.enum(['undo', 'redo']).optional(),
+});
+
+export const activityLogSchema = z.record(z.array(taskActivitySchema));
+
+export const savedViewSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  query: z.string(),
+  page: z.enum(['board', 'tasks']),
+});
+
+export const boardSettingsSchema = z.object({
+  checklistDoneLaneId: z.string().optional(),
+  blockedTaskPolicy: z.enum(['warn', 'block']).optional(),
+  savedViews: z.array(savedViewSchema).optional(),
+});
+
+export const boardSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  archived: z.boolean().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const boardsSchema = z.array(boardSchema);
+
+export const persistedSwimLanesSchema = z.object({
+  version: z.literal(SWIM_LANES_VERSION),
+  swimLanes: swimLanesSchema,
+});
+
+export const persistedActivitySchema = z.object({
+  version: z.literal(ACTIVITY_VERSION),
+  activityLog: activityLogSchema,
+});
+
+export const persistedSettingsSchema = z.object({
+  version: z.literal(SETTINGS_VERSION),
+  settings: boardSettingsSchema,
+});
+
+export const persistedBoardsSchema = z.object({
+  version: z.literal(BOARDS_VERSION),
+  boards: boardsSchema,
+});
+
+export type PersistedTasks = z.infer<typeof persistedTasksSchema>;
+export type PersistedSwimLanes = z.infer<typeof persistedSwimLanesSchema>;
+export type PersistedActivity = z.infer<typeof persistedActivitySchema>;
+export type PersistedSettings = z.infer<typeof persistedSettingsSchema>;
+export type PersistedBoards = z.infer<typeof persistedBoardsSchema>;
+
+/**
+ * Thrown when persisted board data cannot be read, migrated or validated.
+ * Keeps the raw payload around so the recovery screen can offer it for download.
+ */
+export class BoardDataError extends Error {
+  readonly raw: unknown;
+  readonly issues: string[];
+
+  constructor(message: string, raw: unknown, issues: string[] = []) {
+    super(message);
+    this.name = 'BoardDataError';
+    this.raw = raw;
+    this.issues = issues;
+  }
+}
+
+type Payload = Record<string, unknown>;
+// Takes the stored value as it was at one version; version 0 values need not be objects
+type Migration = (payload: unknown) => Payload;
+
+const isRecord = (value: unknown): value is Payload =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Ordered migrations for the persisted task payload.
+ * The migration at index n upgrades a payload from version n to n + 1.
+ */
+const TASK_MIGRATIONS: Migration[] = [
+  // v0 -> v1: unversioned legacy payload. Tasks in the removed 'release' lane
+  // move to 'done', missing free-text fields get defaults and tasksByStatus
+  // is rebuilt so every task sits in exactly one column.
+  raw => {
+    // parsePersistedTasks only migrates objects
+    const payload = raw as Payload;
+    const rawTasks = isRecord(payload.tasks) ? payload.tasks : {};
+    const rawTasksByStatus = isRecord(payload.tasksByStatus) ? payload.tasksByStatus : {};
+
+    const tasks: Payload = {};
+    Object.entries(rawTasks).forEach(([id, task]) => {
+      if (!isRecord(task)) {
+        tasks[id] = task;
+        return;
+      }
+      tasks[id] = {
+        ...task,
+        id: task.id ?? id,
+        description: task.description ?? '',
+        label: task.label ?? '',
+        priority: typeof task.priority === 'string' ? Number(task.priority) : task.priority,
+        status: task.status === 'release' ? 'done' : task.status,
+      };
+    });
+
+    const tasksByStatus: Record<string, unknown> = { ...rawTasksByStatus };
+    if (Array.isArray(tasksByStatus.release)) {
+      const done = Array.isArray(tasksByStatus.done) ? tasksByStatus.done : [];
+      tasksByStatus.done = [...done, ...tasksByStatus.release];
+      delete tasksByStatus.release;
+    }
+
+    const parsedTasks = z.record(taskSchema).safeParse(tasks);
+    const parsedOrder = z.record(z.array(z.string())).safeParse(tasksByStatus);
+
+    return {
+      ...payload,
+      version: 1,
+      tasks,
+      tasksByStatus: parsedTasks.success && parsedOrder.success
+        ? reconcileTasksByStatus(parsedTasks.data as TaskMap, parsedOrder.data)
+        : tasksByStatus,
+    };
+  },
+];
+
+const formatIssues = (error: z.ZodError) =>
+  error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+
+// Before they were versioned, the other documents were stored as the bare value
+const wrapAs = (key: string): Migration => value => ({ version: 1, [key]: value });
+
+const SWIM_LANES_MIGRATIONS: Migration[] = [wrapAs('swimLanes')];
+const ACTIVITY_MIGRATIONS: Migration[] = [wrapAs('activityLog')];
+const SETTINGS_MIGRATIONS: Migration[] = [wrapAs('settings')];
+const BOARDS_MIGRATIONS: Migration[] = [wrapAs('boards')];
+
+/**
+ * Upgrade a raw payload to `version` through its migrations, then validate it.
+ * Anything that is not an object with a numeric version is a version 0 payload.
+ * Throws BoardDataError when the payload is unusable.
+ */
+function parseVersioned<T>(
+  raw: unknown,
+  what: string,
+  version: number,
+  migrations: Migration[],
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): T {
+  const storedVersion = isRecord(raw) && typeof raw.version === 'number' ? raw.version : 0;
+  if (storedVersion > version) {
+    throw new BoardDataError(
+      `Stored ${what} has schema version ${storedVersion}, but this app only understands up to ${version}`,
+      raw
+    );
+  }
+
+  let payload = raw;
+  for (let v = storedVersion; v < version; v++) {
+    payload = migrations[v](payload);
+  }
+
+  const result = schema.safeParse(payload);
+  if (!result.success) {
+    throw new BoardDataError(`Stored ${what} failed validation`, raw, formatIssues(result.error));
+  }
+  return result.data;
+}
+
+/**
+ * Upgrade a raw task payload to the current schema version and validate it.
+ * Throws BoardDataError when the payload is unusable.
+ */
+export function parsePersistedTasks(raw: unknown): PersistedTasks {
+  if (!isRecord(raw)) {
+    throw new BoardDataError('Stored task data is not an object', raw);
+  }
+  return parseVersioned(raw, 'task data', CURRENT_SCHEMA_VERSION, TASK_MIGRATIONS, persistedTasksSchema);
+}
+
+/** Upgrade and validate the persisted swim lane list. Throws BoardDataError when invalid. */
+export function parseSwimLanes(raw: unknown): SwimLane[] {
+  return parseVersioned(raw, 'swim lane list', SWIM_LANES_VERSION, SWIM_LANES_MIGRATIONS, persistedSwimLanesSchema)
+    .swimLanes;
+}
+
+/** Upgrade and validate the persisted activity log. Throws BoardDataError when invalid. */
+export function parseActivityLog(raw: unknown): ActivityLog {
+  return parseVersioned(raw, 'activity log', ACTIVITY_VERSION, ACTIVITY_MIGRATIONS, persistedActivitySchema)
+    .activityLog;
+}
+
+/** Upgrade and validate the persisted board settings. Throws BoardDataError when invalid. */
+export function parseBoardSettings(raw: unknown): BoardSettings {
+  return parseVersioned(raw, 'board settings', SETTINGS_VERSION, SETTINGS_MIGRATIONS, persistedSettingsSchema)
+    .settings;
+}
+
+/** Upgrade and validate the persisted board list. Throws BoardDataError when invalid. */
+export function parseBoards(raw: unknown): Board[] {
+  return parseVersioned(raw, 'board list', BOARDS_VERSION, BOARDS_MIGRATIONS, persistedBoardsSchema).boards;
+}
+
+/**
+ * Stamp the current schema version onto task data before saving. In development
+ * it also reports data that would fail validation when the board is loaded again.
+ */
+export function toPersistedTasks(tasks: TaskMap, tasksByStatus: TasksByStatus): PersistedTasks {
+  const persisted: PersistedTasks = { version: CURRENT_SCHEMA_VERSION, tasks, tasksByStatus };
+  if (import.meta.env.DEV) {
+    // Through JSON, as the repositories store it: undefined fields are dropped
+    const result = persistedTasksSchema.safeParse(JSON.parse(JSON.stringify(persisted)));
+    if (!result.success) console.error('Saved task data would not load again', formatIssues(result.error));
+  }
+  return persisted;
+}
+
+/** Stamp the schema version onto the swim lane list before saving. */
+export function toPersistedSwimLanes(swimLanes: SwimLane[]): PersistedSwimLanes {
+  return { version: SWIM_LANES_VERSION, swimLanes };
+}
+
+/** Stamp the schema version onto the activity log before saving. */
+export function toPersistedActivity(activityLog: ActivityLog): PersistedActivity {
+  return { version: ACTIVITY_VERSION, activityLog };
+}
+
+/** Stamp the schema version onto the board settings before saving. */
+export function toPersistedSettings(settings: BoardSettings): PersistedSettings {
+  return { version: SETTINGS_VERSION, settings };
+}
+
+/** Stamp the schema version onto the board list before saving. */
+export function toPersistedBoards(boards: Board[]): PersistedBoards {
+  return { version: BOARDS_VERSION, boards };
+}
@@ -0,0 +1,154 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BoardSnapshot, SwimLane, Task, TaskMap, TasksByStatus } from '../types/task';
+import { BoardDataError, CURRENT_SCHEMA_VERSION, parsePersistedTasks, parseSwimLanes } from './boardSchema';
+import { reconcileTasksByStatus } from './tasksByStatus';
+
+export const BOARD_EXPORT_FORMAT = 'kanban-board-export';
+
+// File written by "Export board"; `version` is the task schema version it was written with
+export interface BoardExport {
+  format: typeof BOARD_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  boardName?: string;
+  tasks: TaskMap;
+  tasksByStatus: TasksByStatus;
+  swimLanes: SwimLane[];
+}
+
+export type ImportMode = 'replace' | 'merge';
+
+// How merge handles an incoming task whose id already exists on the board
+export type ImportConflictStrategy = 'skip' | 'overwrite' | 'duplicate';
+
+export interface ImportSummary {
+  taskCount: number;
+  laneCount: number;
+  newLanes: SwimLane[];
+  conflictingTaskIds: string[];
+}
+
+export function createBoardExport(snapshot: BoardSnapshot, boardName?: string): BoardExport {
+  return {
+    format: BOARD_EXPORT_FORMAT,
+    version: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    boardName,
+    tasks: snapshot.tasks,
+    tasksByStatus: snapshot.tasksByStatus,
+    swimLanes: snapshot.swimLanes,
+  };
+}
+
+/**
+ * Validate an export file, migrating older task data to the current schema.
+ * Throws BoardDataError when the file is unusable, including when tasks
+ * reference swim lanes that are not part of the file.
+ */
+export function parseBoardExport(raw: unknown): BoardExport {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new BoardDataError('Import file is not a JSON object', raw);
+  }
+  const payload = raw as Record<string, unknown>;
+  if (payload.format !== BOARD_EXPORT_FORMAT) {
+    throw new BoardDataError('This file is not a board export', raw);
+  }
+
+  const { tasks, tasksByStatus } = parsePersistedTasks({
+    version: payload.version,
+    tasks: payload.tasks,
+    tasksByStatus: payload.tasksByStatus,
+  });
+  const swimLanes = parseSwimLanes(payload.swimLanes);
+
+  const laneIds = new Set(swimLanes.map(lane => lane.id));
+  const issues = [
+    ...Object.values(tasks)
+      .filter(task => !laneIds.has(task.status))
+      .map(task => `tasks.${task.id}: status "${task.status}" is not one of the exported swim lanes`),
+    ...Object.keys(tasksByStatus)
+      .filter(status => !laneIds.has(status))
+      .map(status => `tasksByStatus.${status}: not one of the exported swim lanes`),
+  ];
+  if (issues.length > 0) {
+    throw new BoardDataError('Import file references swim lanes it does not contain', raw, issues);
+  }
+
+  return {
+    format: BOARD_EXPORT_FORMAT,
+    version: CURRENT_SCHEMA_VERSION,
+    exportedAt: typeof payload.exportedAt === 'string' ? payload.exportedAt : '',
+    boardName: typeof payload.boardName === 'string' ? payload.boardName : undefined,
+    tasks,
+    tasksByStatus,
+    swimLanes,
+  };
+}
+
+/** What an import would bring in, for the preview shown before applying it. */
+export function summarizeImport(current: BoardSnapshot, incoming: BoardExport): ImportSummary {
+  const currentLaneIds = new Set(current.swimLanes.map(lane => lane.id));
+  return {
+    taskCount: Object.keys(incoming.tasks).length,
+    laneCount: incoming.swimLanes.length,
+    newLanes: incoming.swimLanes.filter(lane => !currentLaneIds.has(lane.id)),
+    conflictingTaskIds: Object.keys(incoming.tasks).filter(id => current.tasks[id]),
+  };
+}
+
+const withLaneEntries = (swimLanes: SwimLane[], tasks: TaskMap, order: TasksByStatus): TasksByStatus => {
+  const reconciled = reconcileTasksByStatus(tasks, order);
+  swimLanes.forEach(lane => {
+    reconciled[lane.id] = reconciled[lane.id] || [];
+  });
+  return reconciled;
+};
+
+/** Board state after an import, for either mode. */
+export function applyImport(
+  current: BoardSnapshot,
+  incoming: BoardExport,
+  mode: ImportMode,
+  conflicts: ImportConflictStrategy = 'skip'
+): BoardSnapshot {
+  if (mode === 'replace') {
+    return {
+      tasks: incoming.tasks,
+      tasksByStatus: withLaneEntries(incoming.swimLanes, incoming.tasks, incoming.tasksByStatus),
+      swimLanes: incoming.swimLanes,
+    };
+  }
+
+  // Lanes: keep the existing ones as they are and append lanes the board doesn't have
+  const currentLaneIds = new Set(current.swimLanes.map(lane => lane.id));
+  const swimLanes = [...current.swimLanes, ...incoming.swimLanes.filter(lane => !currentLaneIds.has(lane.id))];
+
+  // Give duplicated tasks fresh ids, then rewrite dependency links inside the import to match
+  const idMap = new Map<string, string>();
+  Object.keys(incoming.tasks).forEach(id => {
+    if (!current.tasks[id] || conflicts === 'overwrite') {
+      idMap.set(id, id);
+    } else if (conflicts === 'duplicate') {
+      idMap.set(id, uuidv4());
+    }
+  });
+
+  const tasks: TaskMap = { ...current.tasks };
+  idMap.forEach((newId, oldId) => {
+    const task: Task = incoming.tasks[oldId];
+    tasks[newId] = {
+      ...task,
+      id: newId,
+      blockedBy: task.blockedBy?.map(blockerId => idMap.get(blockerId) ?? blockerId),
+    };
+  });
+
+  // Existing order first, imported tasks after them in their exported order
+  const order: TasksByStatus = { ...current.tasksByStatus };
+  Object.entries(incoming.tasksByStatus).forEach(([status, ids]) => {
+    const imported = ids.map(id => idMap.get(id)).filter((id): id is string => !!id);
+    order[status] = [...(order[status] || []), ...imported];
+  });
+
+  return { tasks, tasksByStatus: withLaneEntries(swimLanes, tasks, order), swimLanes };
+}
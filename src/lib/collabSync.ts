@@ -0,0 +1,213 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BoardDoc, BoardDocOperation } from './crdt';
+
+// A change to shared board state: a CRDT operation, so replicas that have
+// seen the same operations agree no matter the order they arrived in
+export type BoardOperationChange = BoardDocOperation;
+
+export type BoardOperation = BoardOperationChange & {
+  // Unique per operation; the server and other clients ignore ids they have already seen
+  id: string;
+  clientId: string;
+};
+
+export type PresenceActivity = 'viewing' | 'dragging';
+
+export interface PresencePeer {
+  clientId: string;
+  user: string;
+  taskId: string | null;
+  activity: PresenceActivity | null;
+}
+
+// Messages sent to the sync server
+type ClientMessage =
+  | { type: 'hello'; boardId: string; clientId: string; user: string; since: number }
+  | { type: 'op'; op: BoardOperation }
+  | { type: 'presence'; taskId: string | null; activity: PresenceActivity | null };
+
+// Messages received from the sync server; `seq` orders operations per board
+type ServerMessage =
+  | { type: 'welcome'; seq: number }
+  | { type: 'op'; op: BoardOperation; seq: number }
+  | { type: 'ack'; opId: string; seq: number }
+  | { type: 'presence'; peers: PresencePeer[] };
+
+export type CollabStatus = 'connecting' | 'online' | 'offline';
+
+// Where a client left off with the server, so a reload can pick up from there
+export interface CollabSyncState {
+  lastSeq: number;
+  // Sent but not acknowledged yet
+  pending: BoardOperation[];
+}
+
+export interface CollabClientOptions {
+  url: string;
+  boardId: string;
+  user: string;
+  // Operations recreating the current board, used to seed a server that has nothing for it yet
+  getSeedOperations: () => BoardOperationChange[];
+  onOperations: (ops: BoardOperation[]) => void;
+  onPresence: (peers: PresencePeer[]) => void;
+  onStatus: (status: CollabStatus) => void;
+  // State saved by an earlier client for this board (see getSyncState)
+  resumeFrom?: CollabSyncState | null;
+}
+
+export interface CollabClient {
+  clientId: string;
+  send: (changes: BoardOperationChange[]) => void;
+  setPresence: (taskId: string | null, activity: PresenceActivity | null) => void;
+  getSyncState: () => CollabSyncState;
+  close: () => void;
+}
+
+const MAX_RECONNECT_DELAY = 30000;
+
+/**
+ * Connect to the board sync server. Local operations are queued until the
+ * server acknowledges them and re-sent after a reconnect; the server replays
+ * everything after the last sequence number this client has seen.
+ */
+export function createCollabClient({
+  url,
+  boardId,
+  user,
+  getSeedOperations,
+  onOperations,
+  onPresence,
+  onStatus,
+  resumeFrom,
+}: CollabClientOptions): CollabClient {
+  const clientId = uuidv4();
+  const pending = new Map<string, BoardOperation>(resumeFrom?.pending.map(op => [op.id, op]));
+  const seenOpIds = new Set<string>();
+  let lastSeq = resumeFrom?.lastSeq ?? 0;
+  let presence: { taskId: string | null; activity: PresenceActivity | null } = { taskId: null, activity: null };
+  let socket: WebSocket | null = null;
+  let reconnectDelay = 1000;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  const post = (message: ClientMessage) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const send = (changes: BoardOperationChange[]) => {
+    changes.forEach(change => {
+      const op = { ...change, id: uuidv4(), clientId } as BoardOperation;
+      pending.set(op.id, op);
+      post({ type: 'op', op });
+    });
+  };
+
+  const handleMessage = (message: ServerMessage) => {
+    switch (message.type) {
+      case 'welcome':
+        // The server lost its log (e.g. it restarted): whatever we had seen is gone
+        if (message.seq < lastSeq) lastSeq = 0;
+        // Re-send everything the server hasn't acknowledged
+        pending.forEach(op => post({ type: 'op', op }));
+        // First client on a fresh server: share the whole board
+        if (message.seq === 0 && lastSeq === 0) {
+          send(getSeedOperations());
+        }
+        post({ type: 'presence', ...presence });
+        onStatus('online');
+        break;
+      case 'op':
+        lastSeq = Math.max(lastSeq, message.seq);
+        if (message.op.clientId === clientId || seenOpIds.has(message.op.id)) return;
+        seenOpIds.add(message.op.id);
+        onOperations([message.op]);
+        break;
+      case 'ack':
+        lastSeq = Math.max(lastSeq, message.seq);
+        pending.delete(message.opId);
+        break;
+      case 'presence':
+        onPresence(message.peers.filter(peer => peer.clientId !== clientId));
+        break;
+    }
+  };
+
+  const connect = () => {
+    onStatus('connecting');
+    socket = new WebSocket(url);
+    socket.onopen = () => {
+      reconnectDelay = 1000;
+      post({ type: 'hello', boardId, clientId, user, since: lastSeq });
+    };
+    socket.onmessage = (event: MessageEvent<string>) => {
+      try {
+        handleMessage(JSON.parse(event.data) as ServerMessage);
+      } catch (error) {
+        console.error('Ignoring malformed sync message', error);
+      }
+    };
+    socket.onclose = () => {
+      socket = null;
+      onPresence([]);
+      if (closed) return;
+      onStatus('offline');
+      reconnectTimer = setTimeout(connect, reconnectDelay);
+      reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
+    };
+  };
+
+  connect();
+
+  return {
+    clientId,
+    send,
+    setPresence: (taskId, activity) => {
+      presence = { taskId, activity };
+      post({ type: 'presence', ...presence });
+    },
+    getSyncState: () => ({ lastSeq, pending: [...pending.values()] }),
+    close: () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    },
+  };
+}
+
+// Saved replica of a board for one sync server: the document, and where the client left off
+export interface CollabReplica {
+  doc: BoardDoc;
+  sync: CollabSyncState;
+}
+
+const replicaStorageKey = (url: string, boardId: string) => `kanban-collab-replica:${url}:${boardId}`;
+
+/** The replica saved on this device for `boardId` on the server at `url`, if any. */
+export function loadCollabReplica(url: string, boardId: string): CollabReplica | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem(replicaStorageKey(url, boardId)) || 'null');
+    if (
+      !stored?.doc?.tasks ||
+      !Array.isArray(stored.doc.lanes?.value) ||
+      typeof stored.sync?.lastSeq !== 'number' ||
+      !Array.isArray(stored.sync.pending)
+    ) {
+      return null;
+    }
+    return stored as CollabReplica;
+  } catch {
+    return null;
+  }
+}
+
+export function saveCollabReplica(url: string, boardId: string, replica: CollabReplica) {
+  const key = replicaStorageKey(url, boardId);
+  try {
+    localStorage.setItem(key, JSON.stringify(replica));
+  } catch (error) {
+    // Out of quota. A stale replica would resend other users' changes as ours,
+    // so drop it and let the next load rebuild the replica from the board.
+    localStorage.removeItem(key);
+    console.error('Failed to save the sync replica', error);
+  }
+}
@@ -0,0 +1,265 @@
+import { BoardSnapshot, SwimLane, Task, TaskMap, TasksByStatus } from '../../types/task';
+import { Clock, Stamp, ZERO_STAMP, maxStamp } from './clock';
+import { keyBetween } from './fractionalIndex';
+import { LwwRegister, mergeRegister } from './lwwRegister';
+
+// Task fields merged one by one; `id` is the key and `status` comes from the placement
+type TaskField = Exclude<keyof Task, 'id' | 'status'>;
+
+// Where a task sits: its lane and a fractional position inside that lane
+export interface TaskPlacement {
+  laneId: string;
+  position: string;
+}
+
+export interface TaskRecord {
+  fields: Partial<Record<TaskField, LwwRegister<unknown>>>;
+  placement: LwwRegister<TaskPlacement>;
+  // A delete only wins over writes older than it, so a concurrent edit keeps the task
+  deleted?: Stamp;
+}
+
+// Replicated board state. Every replica that has applied the same operations
+// holds the same document, whatever order the operations arrived in.
+export interface BoardDoc {
+  tasks: Record<string, TaskRecord>;
+  lanes: LwwRegister<SwimLane[]>;
+}
+
+export type BoardDocOperation =
+  | { kind: 'task:fields'; taskId: string; fields: Partial<Record<TaskField, LwwRegister<unknown>>> }
+  | { kind: 'task:place'; taskId: string; placement: LwwRegister<TaskPlacement> }
+  | { kind: 'task:delete'; taskId: string; stamp: Stamp }
+  | { kind: 'lanes:set'; lanes: LwwRegister<SwimLane[]> };
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const taskFields = (task: Task) =>
+  Object.entries(task).filter(([key]) => key !== 'id' && key !== 'status') as [TaskField, unknown][];
+
+// Consecutive positions for a lane's ids, e.g. when building a document from local state
+const spreadPositions = (ids: string[]) => {
+  let position: string | null = null;
+  return ids.map(() => (position = keyBetween(position, null)));
+};
+
+/** Document for state that has never been synced; any real write replaces it. */
+export function createBoardDoc({ tasks, tasksByStatus, swimLanes }: BoardSnapshot): BoardDoc {
+  const doc: BoardDoc = { tasks: {}, lanes: { value: swimLanes, stamp: ZERO_STAMP } };
+  Object.entries(tasksByStatus).forEach(([laneId, ids]) => {
+    const positions = spreadPositions(ids);
+    ids.forEach((id, index) => {
+      const task = tasks[id];
+      if (!task) return;
+      doc.tasks[id] = {
+        fields: Object.fromEntries(taskFields(task).map(([key, value]) => [key, { value, stamp: ZERO_STAMP }])),
+        placement: { value: { laneId, position: positions[index] }, stamp: ZERO_STAMP },
+      };
+    });
+  });
+  return doc;
+}
+
+const latestWrite = (record: TaskRecord) =>
+  maxStamp(record.placement.stamp, ...Object.values(record.fields).map(register => register!.stamp));
+
+const isDeleted = (record: TaskRecord) => !!record.deleted && record.deleted > latestWrite(record);
+
+/** Merge operations into the document. Returns a new document; the input is not changed. */
+export function applyDocOperations(doc: BoardDoc, ops: BoardDocOperation[]): BoardDoc {
+  const tasks = { ...doc.tasks };
+  let lanes = doc.lanes;
+  // Placeholder for operations that arrive before the task's creation
+  const record = (taskId: string): TaskRecord =>
+    tasks[taskId] || { fields: {}, placement: { value: { laneId: '', position: '' }, stamp: ZERO_STAMP } };
+
+  ops.forEach(op => {
+    switch (op.kind) {
+      case 'task:fields': {
+        const current = record(op.taskId);
+        const fields = { ...current.fields };
+        (Object.entries(op.fields) as [TaskField, LwwRegister<unknown>][]).forEach(([key, register]) => {
+          fields[key] = mergeRegister(fields[key], register);
+        });
+        tasks[op.taskId] = { ...current, fields };
+        break;
+      }
+      case 'task:place': {
+        const current = record(op.taskId);
+        tasks[op.taskId] = { ...current, placement: mergeRegister(current.placement, op.placement) };
+        break;
+      }
+      case 'task:delete': {
+        const current = record(op.taskId);
+        tasks[op.taskId] = { ...current, deleted: maxStamp(current.deleted ?? ZERO_STAMP, op.stamp) };
+        break;
+      }
+      case 'lanes:set':
+        lanes = mergeRegister(lanes, op.lanes);
+        break;
+    }
+  });
+
+  return { tasks, lanes };
+}
+
+/** The board a document describes. Lanes are ordered by position, ties broken by task id. */
+export function docToSnapshot(doc: BoardDoc): BoardSnapshot {
+  const tasks: TaskMap = {};
+  const placed: { id: string; placement: TaskPlacement }[] = [];
+
+  Object.entries(doc.tasks).forEach(([id, record]) => {
+    // Skip deleted tasks and ones only known from a stray placement or delete
+    if (isDeleted(record) || !record.fields.title || !record.placement.value.laneId) return;
+    const fields = Object.fromEntries(Object.entries(record.fields).map(([key, register]) => [key, register!.value]));
+    tasks[id] = { ...fields, id, status: record.placement.value.laneId } as Task;
+    placed.push({ id, placement: record.placement.value });
+  });
+
+  placed.sort((a, b) =>
+    a.placement.position < b.placement.position ? -1
+      : a.placement.position > b.placement.position ? 1
+        : a.id < b.id ? -1 : 1
+  );
+
+  const tasksByStatus: TasksByStatus = {};
+  doc.lanes.value.forEach(lane => {
+    tasksByStatus[lane.id] = [];
+  });
+  placed.forEach(({ id, placement }) => {
+    tasksByStatus[placement.laneId] = [...(tasksByStatus[placement.laneId] || []), id];
+  });
+
+  return { tasks, tasksByStatus, swimLanes: doc.lanes.value };
+}
+
+// Indexes of the longest run of ids whose current positions already increase;
+// those keep their positions and only the rest are moved
+const keptIndexes = (positions: (string | null)[]): Set<number> => {
+  const tails: number[] = [];
+  const previous: number[] = [];
+  positions.forEach((position, index) => {
+    if (position === null) return;
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (positions[tails[mid]]! < position) low = mid + 1;
+      else high = mid;
+    }
+    previous[index] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = index;
+  });
+
+  const kept = new Set<number>();
+  for (let index = tails[tails.length - 1] ?? -1; index !== -1; index = previous[index]) {
+    kept.add(index);
+  }
+  return kept;
+};
+
+// New placements for a lane whose order changed, touching as few tasks as possible
+const placeLane = (doc: BoardDoc, laneId: string, ids: string[]): Map<string, TaskPlacement> => {
+  const current = ids.map(id => {
+    const placement = doc.tasks[id]?.placement.value;
+    return placement && placement.laneId === laneId && placement.position ? placement.position : null;
+  });
+  const kept = keptIndexes(current);
+
+  const placements = new Map<string, TaskPlacement>();
+  let before: string | null = null;
+  ids.forEach((id, index) => {
+    if (kept.has(index)) {
+      before = current[index];
+      return;
+    }
+    let next = index + 1;
+    while (next < ids.length && !kept.has(next)) next++;
+    const position = keyBetween(before, next < ids.length ? current[next] : null);
+    placements.set(id, { laneId, position });
+    before = position;
+  });
+  return placements;
+};
+
+/** Operations turning `prev` (the board the document shows) into `next`, stamped by `clock`. */
+export function diffToDocOperations(doc: BoardDoc, prev: BoardSnapshot, next: BoardSnapshot, clock: Clock): BoardDocOperation[] {
+  const ops: BoardDocOperation[] = [];
+
+  Object.values(next.tasks).forEach(task => {
+    const before = prev.tasks[task.id];
+    const changed = taskFields(task).filter(([key, value]) => !before || !same(before[key], value));
+    // Fields cleared since the last sync (e.g. assignee removed)
+    if (before) {
+      taskFields(before).forEach(([key]) => {
+        if (!(key in task)) changed.push([key, undefined]);
+      });
+    }
+    if (changed.length === 0) return;
+    const stamp = clock.tick();
+    ops.push({
+      kind: 'task:fields',
+      taskId: task.id,
+      fields: Object.fromEntries(changed.map(([key, value]) => [key, { value, stamp }])),
+    });
+  });
+
+  Object.keys(prev.tasks).forEach(taskId => {
+    if (!next.tasks[taskId]) ops.push({ kind: 'task:delete', taskId, stamp: clock.tick() });
+  });
+
+  // Only lanes whose order changed get new positions
+  Object.entries(next.tasksByStatus).forEach(([laneId, ids]) => {
+    if (same(prev.tasksByStatus[laneId], ids)) return;
+    placeLane(doc, laneId, ids).forEach((placement, taskId) => {
+      ops.push({ kind: 'task:place', taskId, placement: { value: placement, stamp: clock.tick() } });
+    });
+  });
+
+  if (!same(prev.swimLanes, next.swimLanes)) {
+    ops.push({ kind: 'lanes:set', lanes: { value: next.swimLanes, stamp: clock.tick() } });
+  }
+
+  return ops;
+}
+
+/** Operations re-stating the whole document with fresh stamps, e.g. to seed an empty server. */
+export function docToOperations(doc: BoardDoc, clock: Clock): BoardDocOperation[] {
+  const ops: BoardDocOperation[] = [];
+  Object.entries(doc.tasks).forEach(([taskId, record]) => {
+    if (isDeleted(record)) return;
+    const stamp = clock.tick();
+    ops.push({
+      kind: 'task:fields',
+      taskId,
+      fields: Object.fromEntries(Object.entries(record.fields).map(([key, register]) => [key, { value: register!.value, stamp }])),
+    });
+    ops.push({ kind: 'task:place', taskId, placement: { value: record.placement.value, stamp } });
+  });
+  ops.push({ kind: 'lanes:set', lanes: { value: doc.lanes.value, stamp: clock.tick() } });
+  return ops;
+}
+
+// Every stamp in an operation, so the local clock can move past them
+export function operationStamps(op: BoardDocOperation): Stamp[] {
+  switch (op.kind) {
+    case 'task:fields':
+      return Object.values(op.fields).map(register => register!.stamp);
+    case 'task:place':
+      return [op.placement.stamp];
+    case 'task:delete':
+      return [op.stamp];
+    case 'lanes:set':
+      return [op.lanes.stamp];
+  }
+}
+
+// Every stamp in a document, so a restored replica's clock can move past them
+export function docStamps(doc: BoardDoc): Stamp[] {
+  const stamps = [doc.lanes.stamp];
+  Object.values(doc.tasks).forEach(record => {
+    stamps.push(record.placement.stamp, ...Object.values(record.fields).map(register => register!.stamp));
+    if (record.deleted) stamps.push(record.deleted);
+  });
+  return stamps;
+}
@@ -0,0 +1,38 @@
+// Lamport timestamps tagged with the replica that made them. Encoded as
+// "<counter in base 36, zero padded>@<replica>" so plain string comparison
+// orders them by counter first and replica second, the same on every replica.
+export type Stamp = string;
+
+const COUNTER_WIDTH = 11;
+
+// Sorts before every stamp a replica produces; used for state that predates syncing
+export const ZERO_STAMP: Stamp = `${'0'.repeat(COUNTER_WIDTH)}@`;
+
+const encode = (counter: number, replicaId: string): Stamp =>
+  `${counter.toString(36).padStart(COUNTER_WIDTH, '0')}@${replicaId}`;
+
+const counterOf = (stamp: Stamp) => parseInt(stamp.slice(0, COUNTER_WIDTH), 36) || 0;
+
+export const compareStamps = (a: Stamp, b: Stamp) => (a < b ? -1 : a > b ? 1 : 0);
+
+export const maxStamp = (...stamps: Stamp[]) =>
+  stamps.reduce((max, stamp) => (stamp > max ? stamp : max), ZERO_STAMP);
+
+export interface Clock {
+  replicaId: string;
+  // A stamp newer than anything this replica has made or seen
+  tick: () => Stamp;
+  // Move past a stamp received from another replica
+  observe: (stamp: Stamp) => void;
+}
+
+export function createClock(replicaId: string): Clock {
+  let counter = 0;
+  return {
+    replicaId,
+    tick: () => encode(++counter, replicaId),
+    observe: (stamp) => {
+      counter = Math.max(counter, counterOf(stamp));
+    },
+  };
+}
@@ -0,0 +1,112 @@
+// Fractional position keys for ordered lists: a key between any two keys can
+// always be generated, so moving one item never renumbers the others. Keys
+// compare as plain strings.
+//
+// A key is a variable-length integer followed by an optional fraction. The
+// integer's first character encodes its length ('a'..'z' for 1..26 digits and
+// non-negative values, 'Z'..'A' for negative ones), so appending or prepending
+// only increments or decrements the integer and keys grow logarithmically
+// with the list. The fraction is used to insert between neighbours and never
+// ends in the smallest digit.
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const ZERO = DIGITS[0];
+const LAST = DIGITS[DIGITS.length - 1];
+
+// The smallest integer; nothing could be placed before a key equal to it
+const SMALLEST_INTEGER = 'A' + ZERO.repeat(26);
+
+// Characters taken by the integer part, head included
+const integerLength = (head: string): number => {
+  if (head >= 'a' && head <= 'z') return head.charCodeAt(0) - 'a'.charCodeAt(0) + 2;
+  if (head >= 'A' && head <= 'Z') return 'Z'.charCodeAt(0) - head.charCodeAt(0) + 2;
+  throw new Error(`Invalid position key head "${head}"`);
+};
+
+const splitKey = (key: string): [integer: string, fraction: string] => {
+  const length = integerLength(key[0]);
+  if (key === SMALLEST_INTEGER || length > key.length || (key.length > length && key.endsWith(ZERO))) {
+    throw new Error(`Invalid position key "${key}"`);
+  }
+  return [key.slice(0, length), key.slice(length)];
+};
+
+// The next integer, or null past the largest one
+const incrementInteger = (integer: string): string | null => {
+  const [head, ...digits] = integer;
+  let carry = true;
+  for (let i = digits.length - 1; carry && i >= 0; i--) {
+    const digit = DIGITS.indexOf(digits[i]) + 1;
+    carry = digit === DIGITS.length;
+    digits[i] = carry ? ZERO : DIGITS[digit];
+  }
+  if (!carry) return head + digits.join('');
+  if (head === 'Z') return 'a' + ZERO;
+  if (head === 'z') return null;
+  const nextHead = String.fromCharCode(head.charCodeAt(0) + 1);
+  // One digit more on the positive side, one less on the negative side
+  if (nextHead > 'a') digits.push(ZERO);
+  else digits.pop();
+  return nextHead + digits.join('');
+};
+
+// The previous integer, or null before the smallest one
+const decrementInteger = (integer: string): string | null => {
+  const [head, ...digits] = integer;
+  let borrow = true;
+  for (let i = digits.length - 1; borrow && i >= 0; i--) {
+    const digit = DIGITS.indexOf(digits[i]) - 1;
+    borrow = digit === -1;
+    digits[i] = borrow ? LAST : DIGITS[digit];
+  }
+  if (!borrow) return head + digits.join('');
+  if (head === 'a') return 'Z' + LAST;
+  if (head === 'A') return null;
+  const nextHead = String.fromCharCode(head.charCodeAt(0) - 1);
+  if (nextHead < 'Z') digits.push(LAST);
+  else digits.pop();
+  return nextHead + digits.join('');
+};
+
+// A fraction strictly between `a` and `b` (null: no upper bound)
+const midpoint = (a: string, b: string | null): string => {
+  if (b !== null) {
+    // Skip the shared prefix; the key continues from where the two differ
+    let n = 0;
+    while ((a[n] || ZERO) === b[n]) n++;
+    if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+  // Neighbouring digits: b's first digit alone is already between them if b is longer
+  if (b !== null && b.length > 1) return b.slice(0, 1);
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+};
+
+/** A key sorting after `before` and before `after`; null means the start or end of the list. */
+export function keyBetween(before: string | null, after: string | null): string {
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Cannot place a key between "${before}" and "${after}"`);
+  }
+
+  if (before === null) {
+    if (after === null) return 'a' + ZERO;
+    const [integer, fraction] = splitKey(after);
+    // `after` has a fraction, so its integer alone sorts before it
+    if (fraction) return integer;
+    return decrementInteger(integer) ?? integer + midpoint('', fraction);
+  }
+
+  const [integer, fraction] = splitKey(before);
+  if (after === null) {
+    return incrementInteger(integer) ?? integer + midpoint(fraction, null);
+  }
+
+  const [afterInteger, afterFraction] = splitKey(after);
+  if (integer === afterInteger) return integer + midpoint(fraction, afterFraction);
+  const next = incrementInteger(integer);
+  return next !== null && next < after ? next : integer + midpoint(fraction, null);
+}
@@ -0,0 +1,7 @@
+export type { Clock, Stamp } from './clock';
+export type { LwwRegister } from './lwwRegister';
+export type { BoardDoc, BoardDocOperation, TaskPlacement, TaskRecord } from './boardDoc';
+export { ZERO_STAMP, compareStamps, createClock, maxStamp } from './clock';
+export { mergeRegister } from './lwwRegister';
+export { keyBetween } from './fractionalIndex';
+export { applyDocOperations, createBoardDoc, diffToDocOperations, docStamps, docToOperations, docToSnapshot, operationStamps } from './boardDoc';
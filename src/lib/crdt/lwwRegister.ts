@@ -0,0 +1,11 @@
+import { Stamp } from './clock';
+
+// Last-writer-wins register: the write with the highest stamp is the value
+export interface LwwRegister<T> {
+  value: T;
+  stamp: Stamp;
+}
+
+export function mergeRegister<T>(current: LwwRegister<T> | undefined, incoming: LwwRegister<T>): LwwRegister<T> {
+  return !current || incoming.stamp > current.stamp ? incoming : current;
+}
@@ -0,0 +1,49 @@
+import { SwimLane, Task, TaskMap } from '../types/task';
+
+const laneNameMatches = (lane: SwimLane, keywords: string[]) => {
+  const name = lane.name.toLowerCase();
+  return keywords.some(keyword => name.includes(keyword));
+};
+
+// Lanes whose names suggest the work is finished
+export const isDoneLane = (lane: SwimLane) => laneNameMatches(lane, ['done', 'complete', 'release']);
+
+// Lanes whose names suggest work has started on the task
+export const isInProgressLane = (lane: SwimLane) => laneNameMatches(lane, ['progress', 'doing', 'active', 'wip']);
+
+export const getDoneLaneIds = (swimLanes: SwimLane[]) => swimLanes.filter(isDoneLane).map(lane => lane.id);
+
+/** Tasks this task waits on. Ids of deleted tasks are skipped. */
+export function getBlockers(task: Task, tasks: TaskMap): Task[] {
+  return (task.blockedBy || []).map(id => tasks[id]).filter((blocker): blocker is Task => !!blocker);
+}
+
+/** Tasks that list this task as a blocker. */
+export function getBlockedTasks(taskId: string, tasks: TaskMap): Task[] {
+  return Object.values(tasks).filter(task => task.blockedBy?.includes(taskId));
+}
+
+/** Blockers that are not yet in a done lane. */
+export function getOpenBlockers(task: Task, tasks: TaskMap, swimLanes: SwimLane[]): Task[] {
+  const doneLaneIds = getDoneLaneIds(swimLanes);
+  return getBlockers(task, tasks).filter(blocker => !doneLaneIds.includes(blocker.status));
+}
+
+/**
+ * Whether making `blockerId` block `taskId` would close a loop, i.e. the
+ * blocker already (directly or transitively) waits on the task.
+ */
+export function wouldCreateCycle(tasks: TaskMap, taskId: string, blockerId: string): boolean {
+  if (taskId === blockerId) return true;
+
+  const visited = new Set<string>();
+  const stack = [blockerId];
+  while (stack.length > 0) {
+    const current = stack.pop() as string;
+    if (current === taskId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    stack.push(...(tasks[current]?.blockedBy || []));
+  }
+  return false;
+}
@@ -0,0 +1,10 @@
+/** Save text content as a file through a temporary download link. */
+export function downloadFile(filename: string, content: string, type = 'application/json') {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
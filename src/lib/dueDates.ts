@@ -0,0 +1,9 @@
+import { Task } from '../types/task';
+
+/** Past its desired date (before today) and not yet in a done lane. */
+export function isTaskOverdue(task: Task, doneLaneIds: string[], now = new Date()): boolean {
+  if (!task.desiredDate || doneLaneIds.includes(task.status)) return false;
+  const due = new Date(task.desiredDate);
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return !Number.isNaN(due.getTime()) && due.getTime() < today.getTime();
+}
@@ -0,0 +1,41 @@
+import { BoardSettings, BoardSnapshot, SwimLane, Task, TaskStatus } from '../types/task';
+import { getOpenBlockers, isInProgressLane } from './dependencies';
+import { wouldExceedWipLimit } from './wipLimits';
+
+// Why a move into a lane is refused
+export type MoveRefusal =
+  | { reason: 'blocked'; blockers: Task[] }
+  | { reason: 'overWipLimit'; lane: SwimLane };
+
+/**
+ * Whether the board's "block" policies refuse moving `task` into `laneId`:
+ * starting a task that still waits on open blockers, or going past a lane's
+ * WIP limit. Every status change (drag, bulk move, edit form, checklist
+ * auto-move) is checked with this, and so is a new task entering its lane;
+ * the "warn" policies never refuse.
+ */
+export function getMoveRefusal(
+  task: Task,
+  laneId: TaskStatus,
+  { tasks, tasksByStatus, swimLanes }: BoardSnapshot,
+  settings: BoardSettings
+): MoveRefusal | null {
+  const lane = swimLanes.find(candidate => candidate.id === laneId);
+  // A task already in the lane stays; one not on the board yet is being created into it
+  if (!lane || (task.status === laneId && tasks[task.id])) return null;
+
+  if (settings.blockedTaskPolicy === 'block' && isInProgressLane(lane)) {
+    const blockers = getOpenBlockers(task, tasks, swimLanes);
+    if (blockers.length > 0) return { reason: 'blocked', blockers };
+  }
+  if (lane.wipPolicy === 'block' && wouldExceedWipLimit(lane, tasksByStatus)) {
+    return { reason: 'overWipLimit', lane };
+  }
+  return null;
+}
+
+export function describeMoveRefusal(task: Task, refusal: MoveRefusal): string {
+  return refusal.reason === 'blocked'
+    ? `"${task.title}" is blocked by ${refusal.blockers.map(blocker => `"${blocker.title}"`).join(', ')}`
+    : `${refusal.lane.name} is at its WIP limit of ${refusal.lane.wipLimit}`;
+}
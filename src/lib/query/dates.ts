@@ -0,0 +1,92 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  isValid,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+
+// Inclusive range of timestamps; open ends are +/-Infinity
+export interface DateRange {
+  start: number;
+  end: number;
+}
+
+// Weeks start on Monday, as on most planning boards
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+const dayRange = (day: Date): DateRange => ({ start: startOfDay(day).getTime(), end: endOfDay(day).getTime() });
+
+const span = (start: Date, end: Date): DateRange => ({ start: startOfDay(start).getTime(), end: endOfDay(end).getTime() });
+
+// Named ranges relative to today, e.g. due:this-week
+const PRESETS: Record<string, (now: Date) => DateRange> = {
+  today: now => dayRange(now),
+  yesterday: now => dayRange(addDays(now, -1)),
+  tomorrow: now => dayRange(addDays(now, 1)),
+  'this-week': now => span(startOfWeek(now, WEEK_OPTIONS), endOfWeek(now, WEEK_OPTIONS)),
+  'last-week': now => span(startOfWeek(addWeeks(now, -1), WEEK_OPTIONS), endOfWeek(addWeeks(now, -1), WEEK_OPTIONS)),
+  'next-week': now => span(startOfWeek(addWeeks(now, 1), WEEK_OPTIONS), endOfWeek(addWeeks(now, 1), WEEK_OPTIONS)),
+  'this-month': now => span(startOfMonth(now), endOfMonth(now)),
+  'last-month': now => span(startOfMonth(addMonths(now, -1)), endOfMonth(addMonths(now, -1))),
+  'next-month': now => span(startOfMonth(addMonths(now, 1)), endOfMonth(addMonths(now, 1))),
+};
+
+// next-14-days, last-7-days (also next-14d); both include today
+const RELATIVE_DAYS = /^(next|last)-(\d{1,4})-?d(?:ays?)?$/;
+
+// Values offered by autocomplete for date fields
+export const DATE_VALUE_SUGGESTIONS = [
+  'today',
+  'this-week',
+  'next-7-days',
+  'next-14-days',
+  'last-7-days',
+  'this-month',
+  'next-week',
+  'last-week',
+  'next-month',
+  'last-month',
+  'yesterday',
+  'tomorrow',
+  'none',
+];
+
+// One side of a range: YYYY-MM-DD or a named range
+const parseSingle = (value: string, now: Date): DateRange | null => {
+  const name = value.toLowerCase();
+  const preset = PRESETS[name];
+  if (preset) return preset(now);
+
+  const relative = name.match(RELATIVE_DAYS);
+  if (relative) {
+    const days = Number(relative[2]);
+    return relative[1] === 'next' ? span(now, addDays(now, days)) : span(addDays(now, -days), now);
+  }
+
+  const date = parseISO(value);
+  return isValid(date) ? dayRange(date) : null;
+};
+
+/**
+ * Parse a date query value into a range: a day (2026-10-19), a named range
+ * (this-week, next-14-days) or "from..to" where either side may be left out.
+ */
+export function parseDateRange(value: string, now = new Date()): DateRange | null {
+  const separator = value.indexOf('..');
+  if (separator === -1) return parseSingle(value, now);
+
+  const from = value.slice(0, separator);
+  const to = value.slice(separator + 2);
+  if (!from && !to) return null;
+  const start = from ? parseSingle(from, now) : { start: -Infinity, end: -Infinity };
+  const end = to ? parseSingle(to, now) : { start: Infinity, end: Infinity };
+  if (!start || !end || start.start > end.end) return null;
+  return { start: start.start, end: end.end };
+}
@@ -0,0 +1,225 @@
+import { SwimLane, Task, TaskMap } from '../../types/task';
+import { SearchResult, tokenize } from '../search';
+import { getDoneLaneIds, getOpenBlockers } from '../dependencies';
+import { isTaskOverdue } from '../dueDates';
+import { DateRange, parseDateRange } from './dates';
+import { FIELD_OPERATORS, HAS_VALUES, IS_VALUES, PRIORITY_VALUES, QueryField, findQueryField, laneQueryName } from './fields';
+import { QueryError, QueryOperator, QueryTerm, parseQuery } from './parser';
+
+export interface QueryContext {
+  tasks: TaskMap;
+  swimLanes: SwimLane[];
+  // What "me" means in assignee:me and creator:me
+  currentUser?: string;
+  // Full-text index for free text; without it free text is a plain substring match
+  searchTasks?: (query: string) => SearchResult[];
+}
+
+export interface CompiledQuery {
+  terms: QueryTerm[];
+  // Syntax and value errors; terms with errors are left out of matching
+  errors: QueryError[];
+  isEmpty: boolean;
+  matches: (task: Task) => boolean;
+  // Words of the free text, for highlighting
+  textWords: string[];
+  // Free-text relevance per matching task; null without free text
+  relevance: Map<string, number> | null;
+}
+
+type Predicate = (task: Task) => boolean;
+
+const includesText = (haystack: string | undefined, needle: string) =>
+  !!haystack && haystack.toLowerCase().includes(needle.toLowerCase());
+
+// Comma-separated values match any of them, e.g. status:todo,planning
+const splitValues = (value: string) => value.split(',').map(part => part.trim()).filter(Boolean);
+
+// "<" means before the whole range, "<=" up to its end, and so on
+const compareRange = (operator: QueryOperator, { start, end }: DateRange): ((time: number) => boolean) => {
+  switch (operator) {
+    case '<':
+      return time => time < start;
+    case '<=':
+      return time => time <= end;
+    case '>':
+      return time => time > end;
+    case '>=':
+      return time => time >= start;
+    default:
+      return time => time >= start && time <= end;
+  }
+};
+
+const compareNumber = (operator: QueryOperator, expected: number) => (actual: number) => {
+  switch (operator) {
+    case '<':
+      return actual < expected;
+    case '<=':
+      return actual <= expected;
+    case '>':
+      return actual > expected;
+    case '>=':
+      return actual >= expected;
+    default:
+      return actual === expected;
+  }
+};
+
+const DATE_FIELDS: Record<string, (task: Task) => string | undefined> = {
+  due: task => task.desiredDate,
+  delivered: task => task.actualDeliveryDate,
+  created: task => task.createdAt,
+  updated: task => task.updatedAt,
+};
+
+const TEXT_FIELDS: Record<string, (task: Task) => string | undefined> = {
+  label: task => task.label,
+  title: task => task.title,
+  description: task => task.description,
+  assignee: task => task.assignee,
+  creator: task => task.creator,
+};
+
+// Builds the predicate for one field term, or returns an error message
+function compileFieldTerm(field: QueryField, term: QueryTerm, context: QueryContext): Predicate | string {
+  const operator = term.operator ?? ':';
+  if (!FIELD_OPERATORS[field.kind].includes(operator)) {
+    return `"${field.name}" can't be compared with ${operator}`;
+  }
+  const values = splitValues(term.value);
+
+  switch (field.kind) {
+    case 'text': {
+      const read = TEXT_FIELDS[field.name];
+      return task => values.some(value => includesText(read(task), value));
+    }
+    case 'person': {
+      const read = TEXT_FIELDS[field.name];
+      if (values.some(value => value.toLowerCase() === 'me') && !context.currentUser) {
+        return 'Set your name in Settings to use "me"';
+      }
+      // "me" is an exact match, other names match as substrings
+      return task => values.some(value =>
+        value.toLowerCase() === 'me'
+          ? read(task)?.toLowerCase() === context.currentUser!.toLowerCase()
+          : includesText(read(task), value)
+      );
+    }
+    case 'lane': {
+      const laneIds: string[] = [];
+      for (const value of values) {
+        const wanted = laneQueryName(value);
+        const lane = context.swimLanes.find(l => l.id === value || laneQueryName(l.name) === wanted);
+        if (!lane) return `No swim lane named "${value}"`;
+        laneIds.push(lane.id);
+      }
+      return task => laneIds.includes(task.status);
+    }
+    case 'priority': {
+      const priorities: number[] = [];
+      for (const value of values) {
+        const priority = PRIORITY_VALUES[value.toLowerCase()];
+        if (!priority) return `Unknown priority "${value}" (use 1-3, high, medium or low)`;
+        priorities.push(priority);
+      }
+      const tests = priorities.map(priority => compareNumber(operator, priority));
+      return task => tests.some(test => test(task.priority));
+    }
+    case 'date': {
+      // Each test gets null for tasks without a (valid) date
+      const tests: ((time: number | null) => boolean)[] = [];
+      for (const value of values) {
+        if (value.toLowerCase() === 'none') {
+          if (operator !== ':' && operator !== '=') return `Use ${field.name}:none to find tasks without a date`;
+          tests.push(time => time === null);
+          continue;
+        }
+        const range = parseDateRange(value);
+        if (!range) return `Invalid date "${value}" (use YYYY-MM-DD, today, this-week, next-14-days or from..to)`;
+        const test = compareRange(operator, range);
+        tests.push(time => time !== null && test(time));
+      }
+      const read = DATE_FIELDS[field.name];
+      return task => {
+        const value = read(task);
+        const time = value ? new Date(value).getTime() : NaN;
+        return tests.some(test => test(Number.isNaN(time) ? null : time));
+      };
+    }
+    case 'flag': {
+      const allowed = field.name === 'is' ? IS_VALUES : HAS_VALUES;
+      const unknown = values.find(value => !allowed.includes(value.toLowerCase()));
+      if (unknown) return `Unknown value "${unknown}" for ${field.name}: (use ${allowed.join(', ')})`;
+      const doneLaneIds = getDoneLaneIds(context.swimLanes);
+      const checks: Record<string, Predicate> = {
+        blocked: task => getOpenBlockers(task, context.tasks, context.swimLanes).length > 0,
+        done: task => doneLaneIds.includes(task.status),
+        overdue: task => isTaskOverdue(task, doneLaneIds),
+        assignee: task => !!task.assignee,
+        label: task => !!task.label,
+        due: task => !!task.desiredDate,
+        delivered: task => !!task.actualDeliveryDate,
+        checklist: task => (task.checklist?.length ?? 0) > 0,
+        blockers: task => (task.blockedBy?.length ?? 0) > 0,
+      };
+      return task => values.some(value => checks[value.toLowerCase()](task));
+    }
+  }
+}
+
+/**
+ * Parse and check a query against the board. Every term must match; terms
+ * with errors are skipped so the rest of the query still filters.
+ */
+export function compileQuery(input: string, context: QueryContext): CompiledQuery {
+  const { terms, errors } = parseQuery(input);
+  const predicates: Predicate[] = [];
+  const textWords: string[] = [];
+  let relevance: Map<string, number> | null = null;
+
+  terms.forEach(term => {
+    if (!term.value) return;
+    // A "-" typed before the word it will negate filters nothing yet
+    if (term.field === null && !term.quoted && term.value === '-') return;
+
+    let predicate: Predicate | string;
+    const words = term.field === null ? tokenize(term.value) : [];
+    const containsText: Predicate = task => includesText(task.title, term.value) || includesText(task.description, term.value);
+    if (term.field === null && context.searchTasks && words.length > 0) {
+      const scores = new Map(context.searchTasks(term.value).map(result => [result.taskId, result.score]));
+      // The index matches words in any order; a quoted phrase must also appear as written
+      predicate = term.quoted
+        ? (task: Task) => scores.has(task.id) && containsText(task)
+        : (task: Task) => scores.has(task.id);
+      if (!term.negated) {
+        textWords.push(...words);
+        const previous = relevance;
+        relevance = new Map([...scores].map(([taskId, score]) => [taskId, score + (previous?.get(taskId) ?? 0)]));
+      }
+    } else if (term.field === null) {
+      // No index, or text without letters or digits (e.g. "#" or a lone "-"): plain substring match
+      predicate = containsText;
+    } else {
+      const field = findQueryField(term.field);
+      predicate = field ? compileFieldTerm(field, term, context) : `Unknown field "${term.field}"`;
+    }
+
+    if (typeof predicate === 'string') {
+      errors.push({ start: term.start, end: term.end, message: predicate });
+      return;
+    }
+    const test = predicate;
+    predicates.push(term.negated ? task => !test(task) : test);
+  });
+
+  errors.sort((a, b) => a.start - b.start);
+  return {
+    terms,
+    errors,
+    isEmpty: predicates.length === 0,
+    matches: task => predicates.every(predicate => predicate(task)),
+    textWords: [...new Set(textWords)],
+    relevance,
+  };
+}
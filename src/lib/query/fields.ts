@@ -0,0 +1,56 @@
+import { QueryOperator } from './parser';
+
+export type QueryFieldKind = 'text' | 'person' | 'lane' | 'priority' | 'date' | 'flag';
+
+export interface QueryField {
+  name: string;
+  aliases: string[];
+  kind: QueryFieldKind;
+  description: string;
+}
+
+export const QUERY_FIELDS: QueryField[] = [
+  { name: 'status', aliases: ['lane'], kind: 'lane', description: 'Swim lane name or id' },
+  { name: 'priority', aliases: ['p'], kind: 'priority', description: '1-3 or high, medium, low' },
+  { name: 'assignee', aliases: ['assigned'], kind: 'person', description: 'Assigned to, or me' },
+  { name: 'creator', aliases: ['author'], kind: 'person', description: 'Created by, or me' },
+  { name: 'label', aliases: ['tag'], kind: 'text', description: 'Label contains' },
+  { name: 'title', aliases: [], kind: 'text', description: 'Title contains' },
+  { name: 'description', aliases: ['desc'], kind: 'text', description: 'Description contains' },
+  { name: 'due', aliases: ['desired'], kind: 'date', description: 'Desired date: YYYY-MM-DD, this-week, from..to or none' },
+  { name: 'delivered', aliases: [], kind: 'date', description: 'Delivery date' },
+  { name: 'created', aliases: [], kind: 'date', description: 'Creation date' },
+  { name: 'updated', aliases: [], kind: 'date', description: 'Last change date' },
+  { name: 'is', aliases: [], kind: 'flag', description: 'blocked, done or overdue' },
+  { name: 'has', aliases: [], kind: 'flag', description: 'assignee, label, due, delivered, checklist or blockers' },
+];
+
+export const IS_VALUES = ['blocked', 'done', 'overdue'];
+export const HAS_VALUES = ['assignee', 'label', 'due', 'delivered', 'checklist', 'blockers'];
+
+export const PRIORITY_VALUES: Record<string, number> = {
+  1: 1,
+  high: 1,
+  2: 2,
+  medium: 2,
+  med: 2,
+  3: 3,
+  low: 3,
+};
+
+// Which operators each kind of field understands
+export const FIELD_OPERATORS: Record<QueryFieldKind, QueryOperator[]> = {
+  text: [':', '='],
+  person: [':', '='],
+  lane: [':', '='],
+  priority: [':', '=', '<', '<=', '>', '>='],
+  date: [':', '=', '<', '<=', '>', '>='],
+  flag: [':', '='],
+};
+
+export function findQueryField(name: string): QueryField | undefined {
+  return QUERY_FIELDS.find(field => field.name === name || field.aliases.includes(name));
+}
+
+// Lane names as written in queries: lower case with dashes for spaces, e.g. "in-progress"
+export const laneQueryName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, '-');
@@ -0,0 +1,11 @@
+export type { ParsedQuery, QueryError, QueryOperator, QuerySpan, QueryTerm } from './parser';
+export type { QueryField, QueryFieldKind } from './fields';
+export type { CompiledQuery, QueryContext } from './engine';
+export type { DateRange } from './dates';
+export type { QuerySuggestion, QuerySuggestions } from './suggest';
+export { parseQuery } from './parser';
+export { QUERY_FIELDS, findQueryField, laneQueryName } from './fields';
+export { compileQuery } from './engine';
+export { parseDateRange } from './dates';
+export { getQuerySuggestions } from './suggest';
+export { hasQueryTerm, toggleQueryTerm } from './toggle';
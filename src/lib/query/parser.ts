@@ -0,0 +1,121 @@
+// Query syntax: whitespace-separated terms that must all match.
+//   field:value  field=value  field<value  field<=value  field>value  field>=value
+//   -term             negates a term
+//   field:a,b         matches either value
+//   due:from..to      date ranges; either side may be left out
+//   "quoted text"     values and free text may be quoted to include spaces
+//   word              free text, matched against title and description
+export type QueryOperator = ':' | '=' | '<' | '<=' | '>' | '>=';
+
+// Character range in the query text, end exclusive
+export interface QuerySpan {
+  start: number;
+  end: number;
+}
+
+export interface QueryTerm extends QuerySpan {
+  negated: boolean;
+  // null for free text
+  field: string | null;
+  operator: QueryOperator | null;
+  value: string;
+  valueStart: number;
+  // Written in quotes; quoted free text matches as a phrase
+  quoted: boolean;
+}
+
+export interface QueryError extends QuerySpan {
+  message: string;
+}
+
+export interface ParsedQuery {
+  terms: QueryTerm[];
+  errors: QueryError[];
+}
+
+const OPERATOR_CHARS = ':=<>';
+
+const isSpace = (char: string | undefined) => char !== undefined && /\s/.test(char);
+
+// Reads a bare word or a quoted string starting at `start`
+const readValue = (input: string, start: number, stopAtOperator: boolean) => {
+  if (input[start] === '"') {
+    const close = input.indexOf('"', start + 1);
+    const end = close === -1 ? input.length : close + 1;
+    return { value: input.slice(start + 1, close === -1 ? input.length : close), end, unterminated: close === -1 };
+  }
+  let end = start;
+  while (end < input.length && !isSpace(input[end]) && !(stopAtOperator && OPERATOR_CHARS.includes(input[end]))) {
+    end++;
+  }
+  return { value: input.slice(start, end), end, unterminated: false };
+};
+
+export function parseQuery(input: string): ParsedQuery {
+  const terms: QueryTerm[] = [];
+  const errors: QueryError[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    if (isSpace(input[index])) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+    const negated = input[index] === '-' && index + 1 < input.length && !isSpace(input[index + 1]);
+    if (negated) index++;
+
+    const head = readValue(input, index, true);
+    const operatorMatch = input.slice(head.end).match(/^(<=|>=|[:=<>])/);
+
+    // Free text: a word or quoted phrase without an operator after it
+    if (!operatorMatch || head.unterminated || input[index] === '"' || head.value === '') {
+      const text = head.value === '' && !head.unterminated ? readValue(input, index, false) : head;
+      if (text.unterminated) {
+        errors.push({ start, end: text.end, message: 'Missing closing quote' });
+      }
+      if (text.value) {
+        terms.push({
+          start,
+          end: text.end,
+          negated,
+          field: null,
+          operator: null,
+          value: text.value,
+          valueStart: index,
+          quoted: input[index] === '"',
+        });
+      }
+      index = Math.max(text.end, index + 1);
+      continue;
+    }
+
+    const operator = operatorMatch[1] as QueryOperator;
+    const valueStart = head.end + operator.length;
+    const value = isSpace(input[valueStart]) || valueStart >= input.length
+      ? { value: '', end: valueStart, unterminated: false }
+      : readValue(input, valueStart, false);
+
+    if (value.unterminated) {
+      errors.push({ start, end: value.end, message: 'Missing closing quote' });
+    }
+    if (value.value === '' && !value.unterminated) {
+      errors.push({ start, end: value.end, message: `Missing value after "${head.value}${operator}"` });
+    }
+
+    terms.push({
+      start,
+      end: value.end,
+      negated,
+      field: head.value.toLowerCase(),
+      operator,
+      value: value.value,
+      valueStart: input[valueStart] === '"' ? valueStart + 1 : valueStart,
+      quoted: input[valueStart] === '"',
+    });
+    index = value.end;
+  }
+
+  return { terms, errors };
+}
@@ -0,0 +1,88 @@
+import { HAS_VALUES, IS_VALUES, QUERY_FIELDS, findQueryField, laneQueryName } from './fields';
+import { QueryContext } from './engine';
+import { DATE_VALUE_SUGGESTIONS } from './dates';
+
+export interface QuerySuggestion {
+  label: string;
+  detail?: string;
+  // Replaces input[start, end) when picked
+  insert: string;
+}
+
+export interface QuerySuggestions {
+  start: number;
+  end: number;
+  items: QuerySuggestion[];
+}
+
+const MAX_SUGGESTIONS = 8;
+
+const quoteIfNeeded = (value: string) => (/\s/.test(value) ? `"${value}"` : value);
+
+// Distinct non-empty values, ignoring case (matching is case-insensitive anyway)
+const unique = (values: (string | undefined)[]) => {
+  const byKey = new Map<string, string>();
+  values.forEach(value => {
+    if (value && !byKey.has(value.toLowerCase())) byKey.set(value.toLowerCase(), value);
+  });
+  return [...byKey.values()].sort((a, b) => a.localeCompare(b));
+};
+
+// Known values for a field, taken from the board where possible
+const fieldValues = (fieldName: string, context: QueryContext): string[] => {
+  const tasks = Object.values(context.tasks);
+  switch (fieldName) {
+    case 'status':
+      return context.swimLanes.map(lane => laneQueryName(lane.name));
+    case 'priority':
+      return ['high', 'medium', 'low'];
+    case 'assignee':
+      return ['me', ...unique(tasks.map(task => task.assignee))];
+    case 'creator':
+      return ['me', ...unique(tasks.map(task => task.creator))];
+    case 'label':
+      return unique(tasks.map(task => task.label));
+    case 'is':
+      return IS_VALUES;
+    case 'has':
+      return HAS_VALUES;
+    case 'due':
+    case 'delivered':
+    case 'created':
+    case 'updated':
+      return DATE_VALUE_SUGGESTIONS;
+    default:
+      return [];
+  }
+};
+
+/** Completions for the word under the cursor: field names, or values once a field is typed. */
+export function getQuerySuggestions(input: string, cursor: number, context: QueryContext): QuerySuggestions {
+  let start = cursor;
+  while (start > 0 && !/\s/.test(input[start - 1])) start--;
+  if (input[start] === '-') start++;
+  const word = input.slice(start, cursor);
+
+  const operator = word.match(/<=|>=|[:=<>]/);
+  if (!operator || operator.index === undefined) {
+    const prefix = word.toLowerCase();
+    const items = QUERY_FIELDS
+      .filter(field => field.name.startsWith(prefix) && field.name !== prefix)
+      .map(field => ({ label: `${field.name}:`, detail: field.description, insert: `${field.name}:` }));
+    return { start, end: cursor, items: prefix ? items.slice(0, MAX_SUGGESTIONS) : [] };
+  }
+
+  const field = findQueryField(word.slice(0, operator.index).toLowerCase());
+  const valueStart = start + operator.index + operator[0].length;
+  // Complete only the last value of a comma list
+  const lastComma = input.lastIndexOf(',', cursor - 1);
+  const partStart = lastComma >= valueStart ? lastComma + 1 : valueStart;
+  const prefix = input.slice(partStart, cursor).replace(/^"/, '').toLowerCase();
+  if (!field) return { start: partStart, end: cursor, items: [] };
+
+  const items = fieldValues(field.name, context)
+    .filter(value => value.toLowerCase().startsWith(prefix) && value.toLowerCase() !== prefix)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(value => ({ label: value, insert: `${quoteIfNeeded(value)} ` }));
+  return { start: partStart, end: cursor, items };
+}
@@ -0,0 +1,13 @@
+import { parseQuery } from './parser';
+
+/** Remove `term` from the query if it is there as written, otherwise append it. */
+export function toggleQueryTerm(query: string, term: string): string {
+  const existing = parseQuery(query).terms.find(t => query.slice(t.start, t.end) === term);
+  if (!existing) return query.trim() ? `${query.trim()} ${term}` : term;
+  return `${query.slice(0, existing.start)}${query.slice(existing.end)}`.replace(/\s+/g, ' ').trim();
+}
+
+/** Whether `term` appears in the query exactly as written. */
+export function hasQueryTerm(query: string, term: string): boolean {
+  return parseQuery(query).terms.some(t => query.slice(t.start, t.end) === term);
+}
@@ -0,0 +1,63 @@
+import { createIndexedDbBoardListRepository, createIndexedDbRepository } from './indexedDbRepository';
+import { createLocalStorageBoardListRepository, createLocalStorageRepository } from './localStorageRepository';
+import { createRestBoardListRepository, createRestRepository } from './restRepository';
+import { BoardListRepository, TaskRepository, TaskRepositoryKind } from './types';
+
+export type { BoardListRepository, PersistedTasks, TaskRepository, TaskRepositoryKind } from './types';
+export {
+  createIndexedDbBoardListRepository,
+  createIndexedDbRepository,
+  createLocalStorageBoardListRepository,
+  createLocalStorageRepository,
+  createRestBoardListRepository,
+  createRestRepository,
+};
+
+const DEFAULT_API_URL = '/api';
+
+const resolveKind = (kind: string | undefined): TaskRepositoryKind => {
+  switch (kind as TaskRepositoryKind | undefined) {
+    case 'indexedDB':
+    case 'rest':
+    case 'localStorage':
+      return kind as TaskRepositoryKind;
+    case undefined:
+      return 'localStorage';
+    default:
+      console.warn(`Unknown task repository "${kind}", falling back to localStorage`);
+      return 'localStorage';
+  }
+};
+
+/**
+ * Create the repository for one board, using the backend selected at startup
+ * through VITE_TASK_REPOSITORY ('localStorage' | 'indexedDB' | 'rest').
+ * Defaults to localStorage and the default board.
+ */
+export function createTaskRepository(
+  kind: string | undefined = import.meta.env.VITE_TASK_REPOSITORY,
+  boardId?: string
+): TaskRepository {
+  switch (resolveKind(kind)) {
+    case 'indexedDB':
+      return createIndexedDbRepository(boardId);
+    case 'rest':
+      return createRestRepository(import.meta.env.VITE_TASK_API_URL || DEFAULT_API_URL, boardId);
+    case 'localStorage':
+      return createLocalStorageRepository(boardId);
+  }
+}
+
+/** Create the board list store for the same backend as createTaskRepository. */
+export function createBoardListRepository(
+  kind: string | undefined = import.meta.env.VITE_TASK_REPOSITORY
+): BoardListRepository {
+  switch (resolveKind(kind)) {
+    case 'indexedDB':
+      return createIndexedDbBoardListRepository();
+    case 'rest':
+      return createRestBoardListRepository(import.meta.env.VITE_TASK_API_URL || DEFAULT_API_URL);
+    case 'localStorage':
+      return createLocalStorageBoardListRepository();
+  }
+}
@@ -0,0 +1,78 @@
+import { DEFAULT_BOARD_ID } from '../../types/task';
+import { BoardListRepository, TaskRepository } from './types';
+import {
+  ACTIVITY_STORAGE_KEY,
+  BOARDS_STORAGE_KEY,
+  SETTINGS_STORAGE_KEY,
+  SWIMLANES_STORAGE_KEY,
+  TASKS_STORAGE_KEY,
+  boardStorageKey,
+} from './localStorageRepository';
+
+const DB_NAME = 'kanban-board';
+const DB_VERSION = 1;
+const STORE_NAME = 'board';
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Open the database lazily and share the connection between every repository
+let dbPromise: Promise<IDBDatabase> | null = null;
+const getDatabase = () => {
+  if (!dbPromise) dbPromise = openDatabase();
+  return dbPromise;
+};
+
+const read = async (key: string): Promise<unknown> => {
+  const db = await getDatabase();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key);
+    request.onsuccess = () => resolve(request.result ?? null);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const write = async (key: string, value: unknown): Promise<void> => {
+  const db = await getDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(value, key);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// Boards share one object store; keys are suffixed the same way as in localStorage
+export function createIndexedDbRepository(boardId: string = DEFAULT_BOARD_ID): TaskRepository {
+  const tasksKey = boardStorageKey(TASKS_STORAGE_KEY, boardId);
+  const swimLanesKey = boardStorageKey(SWIMLANES_STORAGE_KEY, boardId);
+  const activityKey = boardStorageKey(ACTIVITY_STORAGE_KEY, boardId);
+  const settingsKey = boardStorageKey(SETTINGS_STORAGE_KEY, boardId);
+
+  return {
+    loadTasks: () => read(tasksKey),
+    saveTasks: (data) => write(tasksKey, data),
+    loadSwimLanes: () => read(swimLanesKey),
+    saveSwimLanes: (data) => write(swimLanesKey, data),
+    loadActivity: () => read(activityKey),
+    saveActivity: (data) => write(activityKey, data),
+    loadSettings: () => read(settingsKey),
+    saveSettings: (data) => write(settingsKey, data),
+  };
+}
+
+export function createIndexedDbBoardListRepository(): BoardListRepository {
+  return {
+    loadBoards: () => read(BOARDS_STORAGE_KEY),
+    saveBoards: (data) => write(BOARDS_STORAGE_KEY, data),
+  };
+}
@@ -0,0 +1,69 @@
+import { BoardDataError } from '../boardSchema';
+import { DEFAULT_BOARD_ID } from '../../types/task';
+import { BoardListRepository, TaskRepository } from './types';
+
+// Local storage keys
+export const TASKS_STORAGE_KEY = 'kanban-tasks';
+export const SWIMLANES_STORAGE_KEY = 'kanban-swimlanes';
+export const ACTIVITY_STORAGE_KEY = 'kanban-activity';
+export const SETTINGS_STORAGE_KEY = 'kanban-settings';
+export const BOARDS_STORAGE_KEY = 'kanban-boards';
+
+// The default board keeps the original un-suffixed keys so existing data stays put
+export const boardStorageKey = (key: string, boardId: string = DEFAULT_BOARD_ID) =>
+  boardId === DEFAULT_BOARD_ID ? key : `${key}:${boardId}`;
+
+const readJson = (key: string): unknown => {
+  const stored = localStorage.getItem(key);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored);
+  } catch {
+    throw new BoardDataError(`Stored data under "${key}" is not valid JSON`, stored);
+  }
+};
+
+export function createLocalStorageRepository(boardId: string = DEFAULT_BOARD_ID): TaskRepository {
+  const tasksKey = boardStorageKey(TASKS_STORAGE_KEY, boardId);
+  const swimLanesKey = boardStorageKey(SWIMLANES_STORAGE_KEY, boardId);
+  const activityKey = boardStorageKey(ACTIVITY_STORAGE_KEY, boardId);
+  const settingsKey = boardStorageKey(SETTINGS_STORAGE_KEY, boardId);
+
+  return {
+    async loadTasks() {
+      return readJson(tasksKey);
+    },
+    async saveTasks(data) {
+      localStorage.setItem(tasksKey, JSON.stringify(data));
+    },
+    async loadSwimLanes() {
+      return readJson(swimLanesKey);
+    },
+    async saveSwimLanes(data) {
+      localStorage.setItem(swimLanesKey, JSON.stringify(data));
+    },
+    async loadActivity() {
+      return readJson(activityKey);
+    },
+    async saveActivity(data) {
+      localStorage.setItem(activityKey, JSON.stringify(data));
+    },
+    async loadSettings() {
+      return readJson(settingsKey);
+    },
+    async saveSettings(data) {
+      localStorage.setItem(settingsKey, JSON.stringify(data));
+    },
+  };
+}
+
+export function createLocalStorageBoardListRepository(): BoardListRepository {
+  return {
+    async loadBoards() {
+      return readJson(BOARDS_STORAGE_KEY);
+    },
+    async saveBoards(data) {
+      localStorage.setItem(BOARDS_STORAGE_KEY, JSON.stringify(data));
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import { DEFAULT_BOARD_ID } from '../../types/task';
+import { BoardListRepository, TaskRepository } from './types';
+
+const createClient = (baseUrl: string) => {
+  const url = (path: string) => `${baseUrl.replace(/\/+$/, '')}/${path}`;
+
+  const getJson = async (path: string): Promise<unknown> => {
+    const response = await fetch(url(path), { headers: { Accept: 'application/json' } });
+    if (response.status === 404 || response.status === 204) return null;
+    if (!response.ok) {
+      throw new Error(`GET ${path} failed with status ${response.status}`);
+    }
+    return response.json();
+  };
+
+  const putJson = async (path: string, body: unknown): Promise<void> => {
+    const response = await fetch(url(path), {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(`PUT ${path} failed with status ${response.status}`);
+    }
+  };
+
+  return { getJson, putJson };
+};
+
+/**
+ * Repository backed by a REST API exposing one JSON document per resource:
+ * GET/PUT {baseUrl}/tasks, /swimlanes, /activity and /settings for the
+ * default board, and {baseUrl}/boards/:boardId/... for every other board.
+ * A 404 on load means nothing has been saved yet.
+ */
+export function createRestRepository(baseUrl: string, boardId: string = DEFAULT_BOARD_ID): TaskRepository {
+  const { getJson, putJson } = createClient(baseUrl);
+  const prefix = boardId === DEFAULT_BOARD_ID ? '' : `boards/${encodeURIComponent(boardId)}/`;
+
+  return {
+    loadTasks: () => getJson(`${prefix}tasks`),
+    saveTasks: (data) => putJson(`${prefix}tasks`, data),
+    loadSwimLanes: () => getJson(`${prefix}swimlanes`),
+    saveSwimLanes: (data) => putJson(`${prefix}swimlanes`, data),
+    loadActivity: () => getJson(`${prefix}activity`),
+    saveActivity: (data) => putJson(`${prefix}activity`, data),
+    loadSettings: () => getJson(`${prefix}settings`),
+    saveSettings: (data) => putJson(`${prefix}settings`, data),
+  };
+}
+
+/** Board list stored at GET/PUT {baseUrl}/boards. */
+export function createRestBoardListRepository(baseUrl: string): BoardListRepository {
+  const { getJson, putJson } = createClient(baseUrl);
+  return {
+    loadBoards: () => getJson('boards'),
+    saveBoards: (data) => putJson('boards', data),
+  };
+}
@@ -0,0 +1,37 @@
+import {
+  PersistedActivity,
+  PersistedBoards,
+  PersistedSettings,
+  PersistedSwimLanes,
+  PersistedTasks,
+} from '../boardSchema';
+
+export type { PersistedActivity, PersistedBoards, PersistedSettings, PersistedSwimLanes, PersistedTasks };
+
+/**
+ * Storage backend used by TaskProvider to load and persist board data.
+ * Every method is async so network and IndexedDB backends can be swapped in
+ * for localStorage without touching the context.
+ *
+ * Loads return the raw stored payload (or null when nothing is stored);
+ * migration and validation happen in boardSchema, not in the repositories.
+ * Saves take the versioned payloads built there (toPersistedTasks etc.).
+ */
+export interface TaskRepository {
+  loadTasks(): Promise<unknown>;
+  saveTasks(data: PersistedTasks): Promise<void>;
+  loadSwimLanes(): Promise<unknown>;
+  saveSwimLanes(data: PersistedSwimLanes): Promise<void>;
+  loadActivity(): Promise<unknown>;
+  saveActivity(data: PersistedActivity): Promise<void>;
+  loadSettings(): Promise<unknown>;
+  saveSettings(data: PersistedSettings): Promise<void>;
+}
+
+/** Storage for the list of boards, shared by every board's TaskRepository. */
+export interface BoardListRepository {
+  loadBoards(): Promise<unknown>;
+  saveBoards(data: PersistedBoards): Promise<void>;
+}
+
+export type TaskRepositoryKind = 'localStorage' | 'indexedDB' | 'rest';
@@ -0,0 +1,33 @@
+import { normalizeText } from './tokenize';
+
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Split text into parts, marking words that start with one of `words`
+ * (already tokenized). Matching ignores case and accents.
+ */
+export function highlightParts(text: string, words: string[]): HighlightPart[] {
+  if (!text || words.length === 0) return [{ text, match: false }];
+
+  const parts: HighlightPart[] = [];
+  let last = 0;
+  for (const found of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const word = normalizeText(found[0]);
+    const query = words.find(w => word.startsWith(w));
+    if (!query || found.index === undefined) continue;
+
+    // Highlight just the typed prefix, mapped back onto the original characters
+    let length = found[0].length;
+    while (length > 0 && normalizeText(found[0].slice(0, length)).length > query.length) length--;
+    if (length === 0) continue;
+
+    if (found.index > last) parts.push({ text: text.slice(last, found.index), match: false });
+    parts.push({ text: text.slice(found.index, found.index + length), match: true });
+    last = found.index + length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), match: false });
+  return parts;
+}
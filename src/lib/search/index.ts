@@ -0,0 +1,5 @@
+export type { SearchField, SearchIndex, SearchResult } from './searchIndex';
+export type { HighlightPart } from './highlight';
+export { createSearchIndex } from './searchIndex';
+export { highlightParts } from './highlight';
+export { normalizeText, tokenize } from './tokenize';
@@ -0,0 +1,160 @@
+import { Task, TaskMap } from '../../types/task';
+import { tokenize } from './tokenize';
+
+export type SearchField = 'title' | 'label' | 'assignee' | 'description';
+
+// How much a hit in each field counts towards the ranking
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 4,
+  label: 3,
+  assignee: 2,
+  description: 1,
+};
+
+// A word that is only a prefix of the indexed word counts for less
+const PREFIX_FACTOR = 0.5;
+
+export interface SearchResult {
+  taskId: string;
+  score: number;
+}
+
+// token -> task id -> weight of that token in the task (summed over fields)
+type Postings = Map<string, Map<string, number>>;
+
+interface IndexedTask {
+  // The task object last indexed; a different object means the task changed
+  task: Task;
+  tokens: Map<string, number>;
+}
+
+export interface SearchIndex {
+  /** Bring the index in line with `tasks`, re-indexing only tasks whose object changed. */
+  sync: (tasks: TaskMap) => void;
+  add: (task: Task) => void;
+  remove: (taskId: string) => void;
+  /**
+   * Tasks containing every word of the query, best first. Each query word
+   * matches whole words and, for the last word or any word of 2+ letters,
+   * words starting with it.
+   */
+  search: (query: string) => SearchResult[];
+  size: () => number;
+}
+
+const taskTokens = (task: Task) => {
+  const weights = new Map<string, number>();
+  (Object.keys(FIELD_WEIGHTS) as SearchField[]).forEach(field => {
+    tokenize(task[field]).forEach(token => {
+      weights.set(token, (weights.get(token) ?? 0) + FIELD_WEIGHTS[field]);
+    });
+  });
+  return weights;
+};
+
+// First index in the sorted list whose word is >= prefix
+const lowerBound = (words: string[], prefix: string) => {
+  let low = 0;
+  let high = words.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (words[mid] < prefix) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+export function createSearchIndex(): SearchIndex {
+  const postings: Postings = new Map();
+  const indexed = new Map<string, IndexedTask>();
+  // Sorted vocabulary for prefix lookups, rebuilt lazily after new words appear
+  let vocabulary: string[] = [];
+  let vocabularyDirty = false;
+
+  const remove = (taskId: string) => {
+    const entry = indexed.get(taskId);
+    if (!entry) return;
+    entry.tokens.forEach((_, token) => {
+      const docs = postings.get(token);
+      if (!docs) return;
+      docs.delete(taskId);
+      if (docs.size === 0) {
+        postings.delete(token);
+        vocabularyDirty = true;
+      }
+    });
+    indexed.delete(taskId);
+  };
+
+  const add = (task: Task) => {
+    remove(task.id);
+    const tokens = taskTokens(task);
+    tokens.forEach((weight, token) => {
+      let docs = postings.get(token);
+      if (!docs) {
+        docs = new Map();
+        postings.set(token, docs);
+        vocabularyDirty = true;
+      }
+      docs.set(task.id, weight);
+    });
+    indexed.set(task.id, { task, tokens });
+  };
+
+  const sync = (tasks: TaskMap) => {
+    indexed.forEach((_, taskId) => {
+      if (!tasks[taskId]) remove(taskId);
+    });
+    Object.values(tasks).forEach(task => {
+      if (indexed.get(task.id)?.task !== task) add(task);
+    });
+  };
+
+  // Scores per task for one query word
+  const matchWord = (word: string, allowPrefix: boolean) => {
+    const scores = new Map<string, number>();
+    postings.get(word)?.forEach((weight, taskId) => scores.set(taskId, weight));
+    if (!allowPrefix) return scores;
+
+    if (vocabularyDirty) {
+      vocabulary = [...postings.keys()].sort();
+      vocabularyDirty = false;
+    }
+    for (let i = lowerBound(vocabulary, word); i < vocabulary.length && vocabulary[i].startsWith(word); i++) {
+      const token = vocabulary[i];
+      if (token === word) continue;
+      postings.get(token)?.forEach((weight, taskId) => {
+        scores.set(taskId, Math.max(scores.get(taskId) ?? 0, weight * PREFIX_FACTOR));
+      });
+    }
+    return scores;
+  };
+
+  const search = (query: string): SearchResult[] => {
+    const words = [...new Set(tokenize(query))];
+    if (words.length === 0) return [];
+
+    let totals: Map<string, number> | null = null;
+    for (let i = 0; i < words.length; i++) {
+      // Single letters only prefix-match while still being typed
+      const scores = matchWord(words[i], words[i].length > 1 || i === words.length - 1);
+      if (!totals) {
+        totals = scores;
+      } else {
+        const next = new Map<string, number>();
+        totals.forEach((score, taskId) => {
+          const wordScore = scores.get(taskId);
+          if (wordScore !== undefined) next.set(taskId, score + wordScore);
+        });
+        totals = next;
+      }
+      if (totals.size === 0) return [];
+    }
+
+    return [...(totals ?? new Map<string, number>()).entries()]
+      .map(([taskId, score]) => ({ taskId, score }))
+      .sort((a, b) => b.score - a.score);
+  };
+
+  return { sync, add, remove, search, size: () => indexed.size };
+}
@@ -0,0 +1,12 @@
+// Letters and digits in any script; everything else separates words
+const WORD = /[\p{L}\p{N}]+/gu;
+const DIACRITICS = /[\u0300-\u036f]/g;
+
+/** Lower-case a string and strip accents, so "Café" and "cafe" match. */
+export const normalizeText = (text: string) => text.normalize('NFKD').replace(DIACRITICS, '').toLowerCase();
+
+/** Split text into normalized words, e.g. "Fix log-in (v2)" -> ["fix", "log", "in", "v2"]. */
+export function tokenize(text: string | undefined): string[] {
+  if (!text) return [];
+  return normalizeText(text).match(WORD) ?? [];
+}
@@ -0,0 +1,291 @@
+import {
+  ActivityLog,
+  BoardSettings,
+  BoardSnapshot,
+  SavedView,
+  SwimLane,
+  Task,
+  TaskActivity,
+  TaskMap,
+  TasksByStatus,
+} from '../types/task';
+import { reconcileTasksByStatus } from './tasksByStatus';
+
+// Everything a tab persists for a board; changes to it are shared with the other tabs
+export interface BoardSyncState extends BoardSnapshot {
+  activityLog: ActivityLog;
+  settings: BoardSettings;
+}
+
+// What changed in a tab since its last message. Only changed tasks, lane lists
+// and new activity entries are sent, so a message is as small as the edit.
+export interface BoardSyncDelta {
+  // Added or changed
+  tasks: Task[];
+  deletedTaskIds: string[];
+  // When the change was sent; an edit made after it keeps a deleted task
+  sentAt: string;
+  // Only the lanes whose list changed
+  tasksByStatus: TasksByStatus;
+  swimLanes?: SwimLane[];
+  settings?: BoardSettings;
+  activity: TaskActivity[];
+}
+
+interface BoardSyncMessage {
+  type: 'board-delta';
+  delta: BoardSyncDelta;
+}
+
+export interface BoardChannel {
+  post: (delta: BoardSyncDelta) => void;
+  close: () => void;
+}
+
+/**
+ * Open a BroadcastChannel shared by every tab showing the same board.
+ * Returns null where BroadcastChannel is unavailable; tabs then simply don't sync.
+ */
+export function openBoardChannel(name: string, onDelta: (delta: BoardSyncDelta) => void): BoardChannel | null {
+  if (typeof BroadcastChannel === 'undefined') return null;
+
+  const channel = new BroadcastChannel(name);
+  channel.onmessage = (event: MessageEvent<BoardSyncMessage>) => {
+    if (event.data?.type === 'board-delta') onDelta(event.data.delta);
+  };
+
+  return {
+    post: delta => channel.postMessage({ type: 'board-delta', delta } satisfies BoardSyncMessage),
+    close: () => channel.close(),
+  };
+}
+
+// Comparisons go field by field: the same lanes or settings written by another
+// tab, or loaded through a zod parse, may list their keys in a different order
+const sameList = <T,>(a: T[] = [], b: T[] = [], sameItem: (x: T, y: T) => boolean) =>
+  a.length === b.length && a.every((item, index) => sameItem(item, b[index]));
+
+const sameIds = (a: string[] = [], b: string[] = []) => sameList(a, b, (x, y) => x === y);
+
+const sameLane = (a: SwimLane, b: SwimLane) =>
+  a.id === b.id && a.name === b.name && a.color === b.color && a.wipLimit === b.wipLimit && a.wipPolicy === b.wipPolicy;
+
+const sameLanes = (a: SwimLane[], b: SwimLane[]) => sameList(a, b, sameLane);
+
+const sameView = (a: SavedView, b: SavedView) =>
+  a.id === b.id && a.name === b.name && a.query === b.query && a.page === b.page;
+
+const sameSettings = (a: BoardSettings, b: BoardSettings) =>
+  a.checklistDoneLaneId === b.checklistDoneLaneId &&
+  a.blockedTaskPolicy === b.blockedTaskPolicy &&
+  sameList(a.savedViews, b.savedViews, sameView);
+
+// A task's fields in a fixed order, for telling versions apart and ordering them
+const taskContent = (task: Task) =>
+  JSON.stringify([
+    task.id,
+    task.title,
+    task.description,
+    task.priority,
+    task.desiredDate,
+    task.actualDeliveryDate ?? null,
+    task.label,
+    task.status,
+    task.assignee ?? null,
+    task.creator ?? null,
+    (task.checklist || []).map(item => [item.id, item.text, item.done]),
+    task.blockedBy || [],
+    task.createdAt,
+    task.updatedAt,
+  ]);
+
+/**
+ * Changes from `base` (the state last shared with the other tabs) to `next`, or
+ * null if there are none. State is immutable, so anything still the same object
+ * as in `base` is skipped without looking inside it.
+ */
+export function diffBoardStates(base: BoardSyncState, next: BoardSyncState): BoardSyncDelta | null {
+  const delta: BoardSyncDelta = { tasks: [], deletedTaskIds: [], sentAt: new Date().toISOString(), tasksByStatus: {}, activity: [] };
+  let changed = false;
+
+  if (next.tasks !== base.tasks) {
+    Object.values(next.tasks).forEach(task => {
+      if (base.tasks[task.id] !== task) delta.tasks.push(task);
+    });
+    Object.keys(base.tasks).forEach(id => {
+      if (!next.tasks[id]) delta.deletedTaskIds.push(id);
+    });
+    changed = delta.tasks.length > 0 || delta.deletedTaskIds.length > 0;
+  }
+
+  if (next.tasksByStatus !== base.tasksByStatus) {
+    Object.entries(next.tasksByStatus).forEach(([status, ids]) => {
+      if (ids !== base.tasksByStatus[status] && !sameIds(ids, base.tasksByStatus[status])) {
+        delta.tasksByStatus[status] = ids;
+        changed = true;
+      }
+    });
+  }
+
+  if (next.swimLanes !== base.swimLanes && !sameLanes(next.swimLanes, base.swimLanes)) {
+    delta.swimLanes = next.swimLanes;
+    changed = true;
+  }
+  if (next.settings !== base.settings && !sameSettings(next.settings, base.settings)) {
+    delta.settings = next.settings;
+    changed = true;
+  }
+
+  if (next.activityLog !== base.activityLog) {
+    Object.entries(next.activityLog).forEach(([taskId, entries]) => {
+      const baseEntries = base.activityLog[taskId];
+      if (entries === baseEntries) return;
+      const known = new Set((baseEntries || []).map(entry => entry.id));
+      delta.activity.push(...entries.filter(entry => !known.has(entry.id)));
+    });
+    changed ||= delta.activity.length > 0;
+  }
+
+  return changed ? delta : null;
+}
+
+// Both tabs edited the same task: the newer edit wins, equal times are settled
+// the same way on both sides so the tabs still agree
+const preferRemote = (local: Task, remote: Task) =>
+  remote.updatedAt !== local.updatedAt
+    ? remote.updatedAt > local.updatedAt
+    : taskContent(remote) > taskContent(local);
+
+export interface BoardMergeResult {
+  state: BoardSyncState;
+  // What both tabs now agree on, for diffing the next local change against
+  base: BoardSyncState;
+  // Tasks whose local version was replaced (or removed) by the other tab's
+  remoteTaskIds: string[];
+  // Something from the other tab was applied
+  tookRemote: boolean;
+}
+
+/**
+ * Merge another tab's changes into ours. A task changed on both sides keeps the
+ * newer edit, and an edit made after a delete keeps the task. Lane lists,
+ * lanes and settings take the other tab's version unless they were changed
+ * here and not sent yet. Whatever local change wins is left out of the
+ * returned base, so the next diff sends it.
+ */
+export function mergeBoardDelta(base: BoardSyncState, local: BoardSyncState, delta: BoardSyncDelta): BoardMergeResult {
+  let tookRemote = false;
+  const remoteTaskIds: string[] = [];
+  const tasks: TaskMap = { ...local.tasks };
+  const baseTasks: TaskMap = { ...base.tasks };
+  // Lanes need fixing up when a task is added, removed or changes lane
+  let relisted = false;
+
+  const takeRemote = (id: string, task: Task | undefined) => {
+    relisted ||= local.tasks[id]?.status !== task?.status;
+    if (task) tasks[id] = task;
+    else delete tasks[id];
+    remoteTaskIds.push(id);
+    tookRemote = true;
+  };
+
+  delta.tasks.forEach(remote => {
+    const localTask = local.tasks[remote.id];
+    // Already the same here: keep our object as the base, so it doesn't read as a local change
+    if (localTask && taskContent(localTask) === taskContent(remote)) {
+      baseTasks[remote.id] = localTask;
+      return;
+    }
+    baseTasks[remote.id] = remote;
+    if (!localTask || preferRemote(localTask, remote)) takeRemote(remote.id, remote);
+  });
+
+  delta.deletedTaskIds.forEach(id => {
+    const localTask = local.tasks[id];
+    delete baseTasks[id];
+    if (localTask && localTask.updatedAt <= delta.sentAt) takeRemote(id, undefined);
+  });
+
+  // Changed here and not sent yet: the local version wins, and the other tab's
+  // goes into the base so the local one is sent back
+  const unsent = <T,>(localValue: T, baseValue: T, equal: (a: T, b: T) => boolean) =>
+    localValue !== baseValue && !equal(localValue, baseValue);
+
+  const order: TasksByStatus = { ...local.tasksByStatus };
+  const baseOrder: TasksByStatus = { ...base.tasksByStatus };
+  Object.entries(delta.tasksByStatus).forEach(([status, ids]) => {
+    if (sameIds(ids, local.tasksByStatus[status])) {
+      baseOrder[status] = local.tasksByStatus[status];
+      return;
+    }
+    baseOrder[status] = ids;
+    if (unsent(local.tasksByStatus[status], base.tasksByStatus[status], sameIds)) return;
+    order[status] = ids;
+    relisted = tookRemote = true;
+  });
+
+  let swimLanes = local.swimLanes;
+  let baseSwimLanes = base.swimLanes;
+  if (delta.swimLanes && !sameLanes(delta.swimLanes, local.swimLanes)) {
+    baseSwimLanes = delta.swimLanes;
+    if (!unsent(local.swimLanes, base.swimLanes, sameLanes)) {
+      swimLanes = delta.swimLanes;
+      relisted = tookRemote = true;
+    }
+  } else if (delta.swimLanes) {
+    baseSwimLanes = local.swimLanes;
+  }
+
+  let tasksByStatus = local.tasksByStatus;
+  if (relisted) {
+    const fixed = reconcileTasksByStatus(tasks, order);
+    swimLanes.forEach(lane => {
+      fixed[lane.id] = fixed[lane.id] || [];
+    });
+    // Keep unchanged lists as they were, so they don't read as local changes
+    Object.entries(fixed).forEach(([status, ids]) => {
+      if (local.tasksByStatus[status] && sameIds(ids, local.tasksByStatus[status])) fixed[status] = local.tasksByStatus[status];
+      // Each tab fixes up its own lists from the tasks it has, so fix-ups aren't sent
+      else if (!unsent(local.tasksByStatus[status], base.tasksByStatus[status], sameIds)) baseOrder[status] = fixed[status];
+    });
+    tasksByStatus = fixed;
+  }
+
+  // Activity is append-only, so both sides' entries are always kept
+  let activityLog = local.activityLog;
+  let baseActivity = base.activityLog;
+  if (delta.activity.length > 0) {
+    activityLog = { ...local.activityLog };
+    baseActivity = { ...base.activityLog };
+    const byTask = new Map<string, TaskActivity[]>();
+    delta.activity.forEach(entry => byTask.set(entry.taskId, [...(byTask.get(entry.taskId) || []), entry]));
+    byTask.forEach((entries, taskId) => {
+      const localEntries = local.activityLog[taskId] || [];
+      const known = new Set(localEntries.map(entry => entry.id));
+      const added = entries.filter(entry => !known.has(entry.id));
+      if (added.length === 0) return;
+      tookRemote = true;
+      activityLog[taskId] = [...localEntries, ...added].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+      baseActivity[taskId] = activityLog[taskId];
+    });
+  }
+
+  let settings = local.settings;
+  let baseSettings = base.settings;
+  if (delta.settings && !sameSettings(delta.settings, local.settings)) {
+    baseSettings = delta.settings;
+    if (!unsent(local.settings, base.settings, sameSettings)) {
+      settings = delta.settings;
+      tookRemote = true;
+    }
+  } else if (delta.settings) {
+    baseSettings = local.settings;
+  }
+
+  return {
+    state: { tasks, tasksByStatus, swimLanes, activityLog, settings },
+    base: { tasks: baseTasks, tasksByStatus: baseOrder, swimLanes: baseSwimLanes, activityLog: baseActivity, settings: baseSettings },
+    remoteTaskIds,
+    tookRemote,
+  };
+}
@@ -0,0 +1,204 @@
+import { format, isValid, parseISO } from 'date-fns';
+import { Priority, SwimLane, Task } from '../types/task';
+import { toCsv } from './csv';
+
+type NewTask = Omit<Task, 'id' | 'createdAt' | 'updatedAt'>;
+
+const PRIORITY_NAMES: Record<Priority, string> = {
+  1: 'High',
+  2: 'Medium',
+  3: 'Low',
+};
+
+const laneName = (swimLanes: SwimLane[], laneId: string) =>
+  swimLanes.find(lane => lane.id === laneId)?.name || laneId;
+
+const formatCsvDate = (value?: string) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return isValid(date) ? format(date, 'yyyy-MM-dd') : value;
+};
+
+// Missing and unparseable dates sort as undefined
+const dateSortValue = (value?: string) => {
+  const time = value ? new Date(value).getTime() : NaN;
+  return Number.isNaN(time) ? undefined : time;
+};
+
+// Columns of the TasksPage table, in default display order. CSV export writes the visible columns.
+export interface TaskTableColumn {
+  id: string;
+  header: string;
+  csvValue: (task: Task, swimLanes: SwimLane[]) => string;
+  // Value compared when sorting by this column
+  sortValue: (task: Task, swimLanes: SwimLane[]) => string | number | undefined;
+}
+
+export const TASK_TABLE_COLUMNS: TaskTableColumn[] = [
+  { id: 'title', header: 'Title', csvValue: task => task.title, sortValue: task => task.title },
+  {
+    id: 'status',
+    header: 'Status',
+    csvValue: (task, swimLanes) => laneName(swimLanes, task.status),
+    // Board order rather than alphabetical
+    sortValue: (task, swimLanes) => swimLanes.findIndex(lane => lane.id === task.status),
+  },
+  { id: 'priority', header: 'Priority', csvValue: task => PRIORITY_NAMES[task.priority], sortValue: task => task.priority },
+  {
+    id: 'desiredDate',
+    header: 'Desired Date',
+    csvValue: task => formatCsvDate(task.desiredDate),
+    sortValue: task => dateSortValue(task.desiredDate),
+  },
+  {
+    id: 'actualDeliveryDate',
+    header: 'Delivered',
+    csvValue: task => formatCsvDate(task.actualDeliveryDate),
+    sortValue: task => dateSortValue(task.actualDeliveryDate),
+  },
+  { id: 'label', header: 'Label', csvValue: task => task.label, sortValue: task => task.label },
+  { id: 'assignee', header: 'Assignee', csvValue: task => task.assignee || '', sortValue: task => task.assignee },
+  { id: 'creator', header: 'Creator', csvValue: task => task.creator || '', sortValue: task => task.creator },
+  {
+    id: 'createdAt',
+    header: 'Created',
+    csvValue: task => formatCsvDate(task.createdAt),
+    sortValue: task => dateSortValue(task.createdAt),
+  },
+  {
+    id: 'updatedAt',
+    header: 'Updated',
+    csvValue: task => formatCsvDate(task.updatedAt),
+    sortValue: task => dateSortValue(task.updatedAt),
+  },
+];
+
+export function tasksToCsv(tasks: Task[], swimLanes: SwimLane[], columns: TaskTableColumn[] = TASK_TABLE_COLUMNS): string {
+  return toCsv([
+    columns.map(column => column.header),
+    ...tasks.map(task => columns.map(column => column.csvValue(task, swimLanes))),
+  ]);
+}
+
+// Task fields a CSV column can be mapped onto during import
+export type CsvImportField =
+  | 'title'
+  | 'description'
+  | 'priority'
+  | 'label'
+  | 'status'
+  | 'assignee'
+  | 'creator'
+  | 'desiredDate'
+  | 'actualDeliveryDate';
+
+export const CSV_IMPORT_FIELDS: { field: CsvImportField; label: string; required?: boolean; aliases: string[] }[] = [
+  { field: 'title', label: 'Title', required: true, aliases: ['title', 'name', 'summary', 'task'] },
+  { field: 'description', label: 'Description', aliases: ['description', 'details', 'notes'] },
+  { field: 'priority', label: 'Priority', aliases: ['priority'] },
+  { field: 'label', label: 'Label', aliases: ['label', 'tag', 'category'] },
+  { field: 'status', label: 'Status (lane name)', aliases: ['status', 'lane', 'column', 'state'] },
+  { field: 'assignee', label: 'Assignee', aliases: ['assignee', 'assigned to', 'owner'] },
+  { field: 'creator', label: 'Creator', aliases: ['creator', 'created by', 'reporter'] },
+  { field: 'desiredDate', label: 'Desired date', aliases: ['desired date', 'due date', 'due'] },
+  { field: 'actualDeliveryDate', label: 'Delivery date', aliases: ['delivered', 'delivery date', 'completed'] },
+];
+
+// Column index per field; fields left out are not imported
+export type CsvColumnMapping = Partial<Record<CsvImportField, number>>;
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[_-]+/g, ' ');
+
+/** Map CSV headers onto task fields by name, e.g. "Due Date" -> desiredDate. */
+export function guessCsvMapping(headers: string[]): CsvColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: CsvColumnMapping = {};
+  CSV_IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const index = normalized.findIndex(header => aliases.includes(header));
+    if (index !== -1) mapping[field] = index;
+  });
+  return mapping;
+}
+
+export interface CsvRowResult {
+  // 1-based line in the file, counting the header row
+  rowNumber: number;
+  task?: NewTask;
+  errors: string[];
+}
+
+const parsePriority = (value: string): Priority | null => {
+  const normalized = value.trim().toLowerCase();
+  if (!normalized) return 2;
+  if (['1', 'high'].includes(normalized)) return 1;
+  if (['2', 'medium', 'med'].includes(normalized)) return 2;
+  if (['3', 'low'].includes(normalized)) return 3;
+  return null;
+};
+
+const parseDate = (value: string): string | null => {
+  const iso = parseISO(value.trim());
+  const date = isValid(iso) ? iso : new Date(value.trim());
+  return isValid(date) ? date.toISOString() : null;
+};
+
+/**
+ * Turn CSV data rows into new tasks using the column mapping.
+ * Every row gets a result; rows with errors have no task and are skipped on import.
+ */
+export function validateCsvRows(
+  rows: string[][],
+  mapping: CsvColumnMapping,
+  swimLanes: SwimLane[],
+  defaults: { creator?: string } = {}
+): CsvRowResult[] {
+  return rows.map((row, index) => {
+    const errors: string[] = [];
+    const cell = (field: CsvImportField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : (row[column] ?? '').trim();
+    };
+
+    const title = cell('title');
+    if (!title) errors.push('Title is empty');
+
+    const priority = parsePriority(cell('priority'));
+    if (priority === null) errors.push(`Unknown priority "${cell('priority')}" (use High, Medium, Low or 1-3)`);
+
+    // Status is matched against lane names (or ids); empty means the first lane
+    const statusValue = cell('status');
+    const lane = statusValue
+      ? swimLanes.find(l => l.name.toLowerCase() === statusValue.toLowerCase() || l.id === statusValue)
+      : swimLanes[0];
+    if (!lane) errors.push(statusValue ? `No swim lane named "${statusValue}"` : 'The board has no swim lanes');
+
+    const desiredValue = cell('desiredDate');
+    const desiredDate = desiredValue ? parseDate(desiredValue) : new Date().toISOString();
+    if (!desiredDate) errors.push(`Invalid desired date "${desiredValue}"`);
+
+    const deliveredValue = cell('actualDeliveryDate');
+    const actualDeliveryDate = deliveredValue ? parseDate(deliveredValue) : undefined;
+    if (actualDeliveryDate === null) errors.push(`Invalid delivery date "${deliveredValue}"`);
+
+    const rowNumber = index + 2;
+    if (errors.length > 0 || !lane || priority === null || !desiredDate || actualDeliveryDate === null) {
+      return { rowNumber, errors };
+    }
+
+    return {
+      rowNumber,
+      errors,
+      task: {
+        title,
+        description: cell('description'),
+        priority,
+        label: cell('label'),
+        status: lane.id,
+        assignee: cell('assignee') || undefined,
+        creator: cell('creator') || defaults.creator || undefined,
+        desiredDate,
+        actualDeliveryDate,
+      },
+    };
+  });
+}
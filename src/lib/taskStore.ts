@@ -0,0 +1,49 @@
+import { BoardSnapshot, Task } from '../types/task';
+import { PresencePeer } from './collabSync';
+import { getOpenBlockers } from './dependencies';
+
+// What components can subscribe to slices of, outside the TaskContext value
+export interface TaskStoreState extends BoardSnapshot {
+  collabPeers: PresencePeer[];
+}
+
+export interface TaskStore {
+  getState: () => TaskStoreState;
+  // Tell subscribers that getState may return something new
+  notify: () => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * Hands the latest board to useTaskSelector. `getState` is read during render,
+ * so a component rendering alongside a change already sees it; TaskProvider
+ * calls `notify` once the change is committed, and subscribers re-render only
+ * when their selected slice changed.
+ */
+export function createTaskStore(getState: () => TaskStoreState): TaskStore {
+  const listeners = new Set<() => void>();
+  return {
+    getState,
+    notify: () => listeners.forEach(listener => listener()),
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+// Same length and the same items in the same order
+export const shallowEqualArrays = <T,>(a: readonly T[], b: readonly T[]) =>
+  a.length === b.length && a.every((item, index) => Object.is(item, b[index]));
+
+// Selectors; those returning new arrays are meant to be used with shallowEqualArrays
+
+export const selectTask = (taskId: string) => (state: TaskStoreState): Task | undefined => state.tasks[taskId];
+
+export const selectOpenBlockers = (taskId: string) => (state: TaskStoreState): Task[] => {
+  const task = state.tasks[taskId];
+  return task ? getOpenBlockers(task, state.tasks, state.swimLanes) : [];
+};
+
+export const selectPeersOnTask = (taskId: string) => (state: TaskStoreState) =>
+  state.collabPeers.filter(peer => peer.taskId === taskId);
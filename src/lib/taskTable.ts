@@ -0,0 +1,83 @@
+import { SwimLane, Task } from '../types/task';
+import { TASK_TABLE_COLUMNS, TaskTableColumn } from './taskCsv';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface TableSort {
+  columnId: string;
+  direction: SortDirection;
+}
+
+// How one person likes the TasksPage table laid out
+export interface TablePreferences {
+  // Column ids in display order
+  order: string[];
+  hidden: string[];
+  // Primary sort first
+  sorts: TableSort[];
+}
+
+export const DEFAULT_TABLE_PREFERENCES: TablePreferences = {
+  order: TASK_TABLE_COLUMNS.map(column => column.id),
+  hidden: [],
+  sorts: [{ columnId: 'createdAt', direction: 'desc' }],
+};
+
+const columnById = (id: string) => TASK_TABLE_COLUMNS.find(column => column.id === id);
+
+/**
+ * Columns in the saved order. Unknown ids are dropped and columns added since
+ * the preferences were saved are appended, so stale preferences still work.
+ */
+export function orderedColumns(preferences: TablePreferences): TaskTableColumn[] {
+  const known = preferences.order.map(columnById).filter((column): column is TaskTableColumn => !!column);
+  const added = TASK_TABLE_COLUMNS.filter(column => !preferences.order.includes(column.id));
+  return [...known, ...added];
+}
+
+export function visibleColumns(preferences: TablePreferences): TaskTableColumn[] {
+  return orderedColumns(preferences).filter(column => !preferences.hidden.includes(column.id));
+}
+
+/**
+ * Plain click sorts by the column alone, cycling ascending, descending, off.
+ * With `multi` (shift-click) the column is added to or cycled within the
+ * existing sorts instead.
+ */
+export function toggleSort(sorts: TableSort[], columnId: string, multi: boolean): TableSort[] {
+  const current = sorts.find(sort => sort.columnId === columnId);
+  const next: TableSort | null =
+    !current ? { columnId, direction: 'asc' } : current.direction === 'asc' ? { columnId, direction: 'desc' } : null;
+
+  if (!multi) return next ? [next] : [];
+  if (!current) return [...sorts, next!];
+  return next ? sorts.map(sort => (sort.columnId === columnId ? next : sort)) : sorts.filter(sort => sort.columnId !== columnId);
+}
+
+const compareValues = (a: string | number | undefined, b: string | number | undefined) => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+};
+
+/** Sort by each column in turn. Empty values go last in either direction. */
+export function sortTasks(tasks: Task[], sorts: TableSort[], swimLanes: SwimLane[]): Task[] {
+  const active = sorts
+    .map(sort => ({ column: columnById(sort.columnId), factor: sort.direction === 'asc' ? 1 : -1 }))
+    .filter((sort): sort is { column: TaskTableColumn; factor: 1 | -1 } => !!sort.column);
+
+  return [...tasks].sort((a, b) => {
+    for (const { column, factor } of active) {
+      const valueA = column.sortValue(a, swimLanes);
+      const valueB = column.sortValue(b, swimLanes);
+      const emptyA = valueA === undefined || valueA === '';
+      const emptyB = valueB === undefined || valueB === '';
+      if (emptyA || emptyB) {
+        if (emptyA !== emptyB) return emptyA ? 1 : -1;
+        continue;
+      }
+      const result = compareValues(valueA, valueB);
+      if (result !== 0) return result * factor;
+    }
+    return 0;
+  });
+}
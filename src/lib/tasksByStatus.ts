@@ -0,0 +1,28 @@
+import { TaskMap, TasksByStatus } from '../types/task';
+
+/**
+ * Make tasksByStatus agree with the tasks map: drop ids of missing tasks,
+ * drop ids listed under the wrong status or more than once, and append any
+ * task that is not listed in its status column. Existing order is kept.
+ */
+export function reconcileTasksByStatus(tasks: TaskMap, tasksByStatus: TasksByStatus): TasksByStatus {
+  const result: TasksByStatus = {};
+  const seen = new Set<string>();
+
+  Object.entries(tasksByStatus).forEach(([status, taskIds]) => {
+    result[status] = taskIds.filter(taskId => {
+      const task = tasks[taskId];
+      if (!task || task.status !== status || seen.has(taskId)) return false;
+      seen.add(taskId);
+      return true;
+    });
+  });
+
+  Object.values(tasks).forEach(task => {
+    if (seen.has(task.id)) return;
+    result[task.status] = [...(result[task.status] || []), task.id];
+    seen.add(task.id);
+  });
+
+  return result;
+}
@@ -0,0 +1,16 @@
+import { toast } from 'react-hot-toast';
+import type { UndoHandle } from '../context/TaskContext';
+import { UndoToastButton } from '../components/UndoToastButton';
+
+/**
+ * Success toast with an inline "Undo" button for the step that was just recorded.
+ * Pass `getLatestUndo()` from useTaskContext right after the mutation.
+ */
+export function showUndoToast(message: string, step: UndoHandle | null) {
+  toast.success(t => (
+    <span className="flex items-center gap-3">
+      {message}
+      {step && <UndoToastButton step={step} toastId={t.id} />}
+    </span>
+  ));
+}
@@ -0,0 +1,14 @@
+import { SwimLane, TasksByStatus } from '../types/task';
+
+export const getLaneTaskCount = (laneId: string, tasksByStatus: TasksByStatus) =>
+  (tasksByStatus[laneId] || []).length;
+
+/** Whether the lane currently holds more tasks than its WIP limit allows. */
+export function isOverWipLimit(lane: SwimLane, tasksByStatus: TasksByStatus): boolean {
+  return lane.wipLimit !== undefined && getLaneTaskCount(lane.id, tasksByStatus) > lane.wipLimit;
+}
+
+/** Whether moving one more task into the lane would take it past its WIP limit. */
+export function wouldExceedWipLimit(lane: SwimLane, tasksByStatus: TasksByStatus): boolean {
+  return lane.wipLimit !== undefined && getLaneTaskCount(lane.id, tasksByStatus) + 1 > lane.wipLimit;
+}
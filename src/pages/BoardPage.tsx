@@ -1,17 +1,65 @@
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
+import { Archive } from 'lucide-react';
 import { KanbanBoard } from '../components/KanbanBoard';
+import { TaskDetailSheet } from '../components/TaskDetailSheet';
+import { HistoryControls } from '../components/HistoryControls';
+import { CollabStatus } from '../components/CollabStatus';
+import { TaskQueryBar } from '../components/TaskQueryBar';
+import { SaveViewButton } from '../components/SaveViewButton';
+import { Button } from '../components/ui/button';
+import { useBoards } from '../context/BoardContext';
+import { useBoardPath } from '../hooks/use-board-path';
+import { useUndoRedoShortcuts } from '../hooks/use-undo-redo-shortcuts';
+import { useTaskQuery } from '../hooks/use-task-query';
 
 export function BoardPage() {
+  // /boards/:boardId/task/:taskId opens the detail drawer on top of the board
+  const { boardId, taskId } = useParams();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const boardPath = useBoardPath();
+  const { getBoard, restoreBoard } = useBoards();
+  const board = boardId ? getBoard(boardId) : undefined;
+  const { query, setQuery, compiled } = useTaskQuery();
+  useUndoRedoShortcuts();
+
   return (
     <div className="h-full flex flex-col">
-      <div className="mb-6">
-        <h1 className="text-2xl font-bold tracking-tight mb-1 text-slate-900 dark:text-slate-100">Activity Board</h1>
-        <p className="text-slate-500 dark:text-slate-300 mt-1">
-          Welcome to your activity board. Rearrange tasks based on status
-        </p>
+      {board?.archived && (
+        <div className="mb-4 flex items-center justify-between gap-4 rounded-md border border-amber-300 bg-amber-50 px-4 py-2 text-sm text-amber-800 dark:border-amber-800 dark:bg-amber-950/50 dark:text-amber-200">
+          <span className="flex items-center">
+            <Archive className="h-4 w-4 mr-2" /> This board is archived.
+          </span>
+          <Button size="sm" variant="outline" onClick={() => restoreBoard(board.id)}>
+            Restore
+          </Button>
+        </div>
+      )}
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight mb-1 text-slate-900 dark:text-slate-100">{board?.name || 'Activity Board'}</h1>
+          <p className="text-slate-500 dark:text-slate-300 mt-1">
+            Welcome to your activity board. Rearrange tasks based on status; shift- or ctrl-click cards to move several at once
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <CollabStatus />
+          <HistoryControls />
+        </div>
+      </div>
+      <div className="mb-4 flex max-w-3xl items-start gap-2">
+        <TaskQueryBar value={query} onChange={setQuery} errors={compiled.errors} className="flex-1" />
+        <SaveViewButton query={query} page="board" />
       </div>
       <div className="flex-1">
-        <KanbanBoard />
+        <KanbanBoard filter={compiled.isEmpty ? undefined : compiled.matches} highlightWords={compiled.textWords} />
       </div>
+      {/* Keep the query when the drawer closes */}
+      <TaskDetailSheet
+        taskId={taskId ?? null}
+        onClose={() => navigate(boardPath() + location.search)}
+        startEditing={!!(location.state as { edit?: boolean } | null)?.edit}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,14 +1,83 @@
 import { SwimLaneManager } from '../components/SwimLaneManager';
+import { BoardTransferPanel } from '../components/BoardTransferPanel';
+import { BenchmarkPanel } from '../components/BenchmarkPanel';
+import { Input } from '../components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { useUser } from '../context/UserContext';
+import { useTaskContext } from '../context/TaskContext';
+import { BlockedTaskPolicy } from '../types/task';
+
+// Select items can't have an empty value, so "don't move" gets a sentinel
+const NO_AUTO_MOVE = 'none';
 
 export default function SettingsPage() {
+  const { currentUser, setCurrentUser } = useUser();
+  const { swimLanes, settings, updateSettings } = useTaskContext();
+
   return (
     <div className="max-w-2xl mx-auto">
       <h1 className="text-2xl font-bold tracking-tight mb-1 text-slate-900 dark:text-slate-100">Settings</h1>
+      <div className="mb-8">
+        <h2 className="text-lg font-semibold mb-2">Your Name</h2>
+        <p className="text-slate-500 dark:text-slate-300 mb-4">Recorded in task history so your team can see who changed what.</p>
+        <Input
+          value={currentUser}
+          onChange={(e) => setCurrentUser(e.target.value)}
+          placeholder="Enter your name"
+          className="max-w-sm"
+        />
+      </div>
       <div className="mb-8">
         <h2 className="text-lg font-semibold mb-2">Swim Lane Management</h2>
         <p className="text-slate-500 dark:text-slate-300 mb-4">Add, edit, remove, or rearrange your swim lanes for the activity board.</p>
         <SwimLaneManager />
       </div>
+      <div className="mb-8">
+        <h2 className="text-lg font-semibold mb-2">Automation</h2>
+        <p className="text-slate-500 dark:text-slate-300 mb-4">When every checklist item on a task is checked, move the task to:</p>
+        <Select
+          value={settings.checklistDoneLaneId || NO_AUTO_MOVE}
+          onValueChange={(value) => updateSettings({ checklistDoneLaneId: value === NO_AUTO_MOVE ? undefined : value })}
+        >
+          <SelectTrigger className="max-w-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_AUTO_MOVE}>Don't move</SelectItem>
+            {swimLanes.map(lane => (
+              <SelectItem key={lane.id} value={lane.id}>{lane.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-slate-500 dark:text-slate-300 mt-6 mb-4">When a blocked task is dragged into an in-progress lane:</p>
+        <Select
+          value={settings.blockedTaskPolicy || 'warn'}
+          onValueChange={(value) => updateSettings({ blockedTaskPolicy: value as BlockedTaskPolicy })}
+        >
+          <SelectTrigger className="max-w-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="warn">Move it and show a warning</SelectItem>
+            <SelectItem value="block">Don't allow the move</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="mb-8">
+        <h2 className="text-lg font-semibold mb-2">Export &amp; Import</h2>
+        <p className="text-slate-500 dark:text-slate-300 mb-4">Download this board as a JSON file, or load tasks and swim lanes from one.</p>
+        <BoardTransferPanel />
+      </div>
+      {import.meta.env.DEV && (
+        <div className="mb-8">
+          <h2 className="text-lg font-semibold mb-2">Performance</h2>
+          <p className="text-slate-500 dark:text-slate-300 mb-4">
+            Generate a large board to measure rendering and drag latency. Timings are also visible as
+            "kanban:" measures in the browser's performance tools. Only shown in development builds.
+          </p>
+          <BenchmarkPanel />
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
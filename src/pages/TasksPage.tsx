@@ -3,76 +3,87 @@ import { TaskForm } from '../components/TaskForm';
 import { useTaskContext } from '../context/TaskContext';
 import { Task, Priority } from '../types/task';
 import { Button } from '../components/ui/button';
-import { Dialog, DialogContent, DialogTrigger } from '../components/ui/dialog';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '../components/ui/dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
-import { format, isValid } from 'date-fns';
-import { Calendar, Edit, Filter, Plus, Search, Trash2, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { ArrowDown, ArrowUp, Download, Edit, Filter, History, Plus, Trash2, Upload } from 'lucide-react';
 import { Badge } from '../components/ui/badge';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '../components/ui/alert-dialog';
-import { Input } from '../components/ui/input';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
-import { Popover, PopoverContent, PopoverTrigger } from '../components/ui/popover';
+import { HistoryControls } from '../components/HistoryControls';
+import { useUndoRedoShortcuts } from '../hooks/use-undo-redo-shortcuts';
+import { showUndoToast } from '../lib/undoToast';
+import { TaskActivityTimeline } from '../components/TaskActivityTimeline';
+import { CsvImportDialog } from '../components/CsvImportDialog';
+import { tasksToCsv } from '../lib/taskCsv';
+import { sortTasks, toggleSort, visibleColumns } from '../lib/taskTable';
+import { useTablePreferences } from '../hooks/use-table-preferences';
+import { TableColumnsMenu } from '../components/TableColumnsMenu';
+import { BulkActionsBar } from '../components/BulkActionsBar';
+import { Checkbox } from '../components/ui/checkbox';
+import { downloadFile } from '../lib/download';
+import { TaskQueryBar } from '../components/TaskQueryBar';
+import { SaveViewButton } from '../components/SaveViewButton';
+import { useTaskQuery } from '../hooks/use-task-query';
+import { hasQueryTerm, toggleQueryTerm } from '../lib/query';
+import { getDoneLaneIds } from '../lib/dependencies';
+import { isTaskOverdue } from '../lib/dueDates';
 import { cn } from '../lib/utils';
-import { Calendar as CalendarComponent } from '../components/ui/calendar';
-import DatePicker from 'react-datepicker';
-import "react-datepicker/dist/react-datepicker.css";
+import { HighlightedText } from '../components/HighlightedText';
+import { useVirtualList } from '../hooks/use-virtual-list';
+
+// One-click date filters, toggled in and out of the query
+const DATE_QUICK_FILTERS = [
+  { label: 'Overdue', term: 'is:overdue' },
+  { label: 'Due this week', term: 'due:this-week' },
+  { label: 'Due in the next 14 days', term: 'due:next-14-days' },
+  { label: 'No due date', term: 'due:none' },
+  { label: 'Not delivered', term: 'delivered:none' },
+];
+
+// Height of a row with its action buttons, before it has been measured
+const ESTIMATED_ROW_HEIGHT = 57;
 
 export function TasksPage() {
-  const { tasks, tasksByStatus, swimLanes, deleteTask } = useTaskContext();
+  const { tasks, tasksByStatus, swimLanes, deleteTask, getLatestUndo } = useTaskContext();
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [historyTask, setHistoryTask] = useState<Task | null>(null);
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
+  const [isCsvImportOpen, setIsCsvImportOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
   
-  // Filters
-  const [titleFilter, setTitleFilter] = useState('');
-  const [statusFilter, setStatusFilter] = useState('all');
-  const [priorityFilter, setPriorityFilter] = useState<string>('all');
-  const [labelFilter, setLabelFilter] = useState('');
-  const [desiredDateFilter, setDesiredDateFilter] = useState<Date | null>(null);
-  const [deliveredDateFilter, setDeliveredDateFilter] = useState<Date | null>(null);
+  // Filter: a structured query kept in the URL (?q=...)
+  const { query, setQuery, compiled } = useTaskQuery();
+  // Columns and sort, remembered per user
+  const { preferences, updatePreferences, resetPreferences } = useTablePreferences();
+  const columns = visibleColumns(preferences);
+
+  useUndoRedoShortcuts();
 
   const allTasks = Object.values(tasks);
+  const doneLaneIds = getDoneLaneIds(swimLanes);
 
-  // Apply filters
-  const filteredTasks = allTasks.filter(task => {
-    // Title filter (case insensitive)
-    if (titleFilter && !task.title.toLowerCase().includes(titleFilter.toLowerCase())) {
-      return false;
-    }
-    
-    // Status filter
-    if (statusFilter && statusFilter !== 'all' && task.status !== statusFilter) {
-      return false;
-    }
-    
-    // Priority filter
-    if (priorityFilter && priorityFilter !== 'all' && task.priority !== parseInt(priorityFilter)) {
-      return false;
-    }
-    
-    // Label filter (case insensitive)
-    if (labelFilter && !task.label.toLowerCase().includes(labelFilter.toLowerCase())) {
-      return false;
-    }
-    
-    // Desired date filter
-    if (desiredDateFilter && task.desiredDate) {
-      const taskDate = new Date(task.desiredDate);
-      if (taskDate.toDateString() !== desiredDateFilter.toDateString()) {
-        return false;
-      }
-    }
-    
-    // Delivered date filter
-    if (deliveredDateFilter && task.actualDeliveryDate) {
-      const taskDate = new Date(task.actualDeliveryDate);
-      if (taskDate.toDateString() !== deliveredDateFilter.toDateString()) {
-        return false;
-      }
-    }
-    
-    return true;
-  }).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  const sortedTasks = sortTasks(allTasks.filter(compiled.matches), preferences.sorts, swimLanes);
+  // With free text in the query the best matches come first; the column sort breaks ties
+  const relevance = compiled.relevance;
+  const filteredTasks = relevance
+    ? [...sortedTasks].sort((a, b) => (relevance.get(b.id) ?? 0) - (relevance.get(a.id) ?? 0))
+    : sortedTasks;
+
+  // Long tables scroll inside their own box and only mount the rows in view
+  const rowList = useVirtualList({ keys: filteredTasks.map(task => task.id), estimateSize: ESTIMATED_ROW_HEIGHT });
+
+  // Bulk actions only touch selected rows the filter still shows
+  const selectedTasks = filteredTasks.filter(task => selectedIds.includes(task.id));
+  const allSelected = filteredTasks.length > 0 && selectedTasks.length === filteredTasks.length;
+
+  const toggleSelected = (taskId: string, checked: boolean) => {
+    setSelectedIds(prev => (checked ? [...prev, taskId] : prev.filter(id => id !== taskId)));
+  };
+
+  const toggleSelectAll = (checked: boolean) => {
+    setSelectedIds(checked ? filteredTasks.map(task => task.id) : []);
+  };
 
   const handleEditTask = (task: Task) => {
     setSelectedTask(task);
@@ -88,16 +99,17 @@ export function TasksPage() {
     if (selectedTask) {
       deleteTask(selectedTask.id);
       setIsDeleteDialogOpen(false);
+      showUndoToast('Task deleted', getLatestUndo());
     }
   };
 
-  const clearFilters = () => {
-    setTitleFilter('');
-    setStatusFilter('all');
-    setPriorityFilter('all');
-    setLabelFilter('');
-    setDesiredDateFilter(null);
-    setDeliveredDateFilter(null);
+  // Export exactly what the table shows: filtered and sorted rows, visible columns in order
+  const handleExportCsv = () => {
+    downloadFile(
+      `tasks-${new Date().toISOString().slice(0, 10)}.csv`,
+      tasksToCsv(filteredTasks, swimLanes, columns),
+      'text/csv;charset=utf-8'
+    );
   };
 
   // Count tasks by priority
@@ -139,6 +151,48 @@ export function TasksPage() {
     }
   };
 
+  const formatTableDate = (value?: string) => (value ? format(new Date(value), 'MMM d, yyyy') : '');
+
+  const renderCell = (columnId: string, task: Task) => {
+    switch (columnId) {
+      case 'title':
+        return (
+          <TableCell key={columnId} className="font-medium text-slate-900 dark:text-slate-100">
+            <HighlightedText text={task.title} words={compiled.textWords} />
+          </TableCell>
+        );
+      case 'status':
+        return <TableCell key={columnId}>{getStatusLabel(task.status)}</TableCell>;
+      case 'priority':
+        return <TableCell key={columnId}>{getPriorityLabel(task.priority)}</TableCell>;
+      case 'desiredDate': {
+        const overdue = isTaskOverdue(task, doneLaneIds);
+        return (
+          <TableCell key={columnId} className={cn('whitespace-nowrap', overdue && 'text-red-600 dark:text-red-400')}>
+            {formatTableDate(task.desiredDate)}
+            {overdue && (
+              <Badge variant="outline" className="ml-2 border-red-300 text-red-600 dark:border-red-800 dark:text-red-400">
+                Overdue
+              </Badge>
+            )}
+          </TableCell>
+        );
+      }
+      case 'actualDeliveryDate':
+      case 'createdAt':
+      case 'updatedAt':
+        return <TableCell key={columnId} className="whitespace-nowrap">{formatTableDate(task[columnId])}</TableCell>;
+      case 'label':
+        return <TableCell key={columnId}>{task.label}</TableCell>;
+      case 'assignee':
+        return <TableCell key={columnId}>{task.assignee}</TableCell>;
+      case 'creator':
+        return <TableCell key={columnId}>{task.creator}</TableCell>;
+      default:
+        return <TableCell key={columnId} />;
+    }
+  };
+
   return (
     <div className="h-full flex flex-col">
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4">
@@ -148,7 +202,17 @@ export function TasksPage() {
             Create and manage your tasks
           </p>
         </div>
-        <div className="mt-4 sm:mt-0">
+        <div className="mt-4 sm:mt-0 flex items-center gap-2">
+          <HistoryControls />
+          <TableColumnsMenu preferences={preferences} onChange={updatePreferences} onReset={resetPreferences} />
+          <Button variant="outline" onClick={handleExportCsv} disabled={filteredTasks.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+          <Button variant="outline" onClick={() => setIsCsvImportOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import CSV
+          </Button>
           <Dialog
             open={isEditDialogOpen}
             onOpenChange={(open) => {
@@ -218,123 +282,122 @@ export function TasksPage() {
             <Filter className="h-4 w-4 mr-2" />
             Filter Tasks
           </h3>
-          {(titleFilter || statusFilter || priorityFilter || labelFilter || desiredDateFilter || deliveredDateFilter) && (
-            <Button variant="ghost" size="sm" onClick={clearFilters} className="text-slate-500 dark:text-slate-300">
-              <X className="h-4 w-4 mr-1" />
-              Clear Filters
-            </Button>
+          {query && (
+            <span className="text-sm text-slate-500 dark:text-slate-300">
+              {filteredTasks.length} of {allTasks.length} tasks{relevance && ', best matches first'}
+            </span>
           )}
         </div>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          <div>
-            <label className="text-sm font-medium text-slate-700 block mb-1">Title</label>
-            <div className="relative">
-              <Search className="absolute left-2 top-2.5 h-4 w-4 text-slate-400" />
-              <Input
-                placeholder="Filter by title"
-                value={titleFilter}
-                onChange={(e) => setTitleFilter(e.target.value)}
-                className="pl-8"
-              />
-            </div>
-          </div>
-          
-          <div>
-            <label className="text-sm font-medium text-slate-700 block mb-1">Status</label>
-            <Select value={statusFilter} onValueChange={setStatusFilter}>
-              <SelectTrigger>
-                <SelectValue placeholder="All statuses" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All statuses</SelectItem>
-                {swimLanes.map(lane => (
-                  <SelectItem key={lane.id} value={lane.id}>{lane.name}</SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
-          
-          <div>
-            <label className="text-sm font-medium text-slate-700 block mb-1">Priority</label>
-            <Select value={priorityFilter} onValueChange={setPriorityFilter}>
-              <SelectTrigger>
-                <SelectValue placeholder="All priorities" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All priorities</SelectItem>
-                <SelectItem value="1">High (1)</SelectItem>
-                <SelectItem value="2">Medium (2)</SelectItem>
-                <SelectItem value="3">Low (3)</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-          
-          <div>
-            <label className="text-sm font-medium text-slate-700 block mb-1">Label</label>
-            <Input
-              placeholder="Filter by label"
-              value={labelFilter}
-              onChange={(e) => setLabelFilter(e.target.value)}
-            />
-          </div>
-          
-          <div>
-            <label className="text-sm font-medium text-slate-700 block mb-1">Desired Date</label>
-            <DatePicker 
-              selected={desiredDateFilter} 
-              onChange={setDesiredDateFilter}
-              dateFormat="MMM d, yyyy"
-              isClearable
-              placeholderText="Filter by desired date"
-              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-            />
-          </div>
-          
-          <div>
-            <label className="text-sm font-medium text-slate-700 block mb-1">Delivery Date</label>
-            <DatePicker 
-              selected={deliveredDateFilter} 
-              onChange={setDeliveredDateFilter}
-              dateFormat="MMM d, yyyy"
-              isClearable
-              placeholderText="Filter by delivery date"
-              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-            />
-          </div>
+        <div className="flex items-start gap-2">
+          <TaskQueryBar value={query} onChange={setQuery} errors={compiled.errors} className="flex-1" />
+          <SaveViewButton query={query} page="tasks" />
+        </div>
+        <div className="mt-3 flex flex-wrap gap-2">
+          {DATE_QUICK_FILTERS.map(filter => {
+            const active = hasQueryTerm(query, filter.term);
+            return (
+              <Button
+                key={filter.term}
+                size="sm"
+                variant={active ? 'default' : 'outline'}
+                className="h-7 rounded-full px-3 text-xs"
+                onClick={() => setQuery(toggleQueryTerm(query, filter.term))}
+                aria-pressed={active}
+                title={filter.term}
+              >
+                {filter.label}
+              </Button>
+            );
+          })}
         </div>
+        <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+          Fields: status, priority, assignee, creator, label, title, description, due, delivered, created, updated, is, has.
+          Use <code>assignee:me</code> for your own tasks.
+          Dates take <code>YYYY-MM-DD</code>, <code>this-week</code>, <code>next-14-days</code>, ranges like <code>due:2026-11-01..2026-11-30</code> and <code>none</code>.
+          Use <code>-</code> to exclude, quotes for spaces and commas for alternatives.
+        </p>
       </div>
 
+      {selectedTasks.length > 0 && (
+        <BulkActionsBar
+          selectedIds={selectedTasks.map(task => task.id)}
+          matchingCount={filteredTasks.length}
+          onSelectAll={() => toggleSelectAll(true)}
+          onClearSelection={() => setSelectedIds([])}
+        />
+      )}
+
       <div className="flex-1 rounded-lg border border-slate-200 bg-white dark:bg-slate-800 dark:border-slate-700 shadow">
         {allTasks.length > 0 ? (
-          <div className="overflow-x-auto">
+          <div ref={rowList.scrollRef} className={cn('overflow-x-auto', rowList.isVirtual && 'max-h-[75vh] overflow-y-auto')}>
             <Table>
               <TableHeader>
                 <TableRow className="bg-slate-50 dark:bg-slate-900">
-                  <TableHead className="font-medium text-slate-700 dark:text-slate-200">Title</TableHead>
-                  <TableHead className="font-medium text-slate-700 dark:text-slate-200">Status</TableHead>
-                  <TableHead className="font-medium text-slate-700 dark:text-slate-200">Priority</TableHead>
-                  <TableHead className="font-medium text-slate-700 dark:text-slate-200">Desired Date</TableHead>
-                  <TableHead className="font-medium text-slate-700 dark:text-slate-200">Delivered</TableHead>
-                  <TableHead className="font-medium text-slate-700 dark:text-slate-200">Label</TableHead>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={allSelected ? true : selectedTasks.length > 0 ? 'indeterminate' : false}
+                      onCheckedChange={checked => toggleSelectAll(checked === true)}
+                      disabled={filteredTasks.length === 0}
+                      aria-label="Select all tasks matching the filter"
+                    />
+                  </TableHead>
+                  {columns.map(column => {
+                    const sortIndex = preferences.sorts.findIndex(sort => sort.columnId === column.id);
+                    const sort = preferences.sorts[sortIndex];
+                    return (
+                      <TableHead
+                        key={column.id}
+                        className="font-medium text-slate-700 dark:text-slate-200"
+                        aria-sort={sort ? (sort.direction === 'asc' ? 'ascending' : 'descending') : undefined}
+                      >
+                        <button
+                          type="button"
+                          className="inline-flex items-center gap-1 whitespace-nowrap hover:text-indigo-600 dark:hover:text-indigo-300"
+                          title="Click to sort, shift-click to add to the sort"
+                          onClick={(e) => updatePreferences({ sorts: toggleSort(preferences.sorts, column.id, e.shiftKey) })}
+                        >
+                          {column.header}
+                          {sort && (sort.direction === 'asc' ? <ArrowUp className="h-3.5 w-3.5" /> : <ArrowDown className="h-3.5 w-3.5" />)}
+                          {sort && preferences.sorts.length > 1 && (
+                            <span className="text-[10px] text-slate-400">{sortIndex + 1}</span>
+                          )}
+                        </button>
+                      </TableHead>
+                    );
+                  })}
                   <TableHead className="text-right font-medium text-slate-700 dark:text-slate-200">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
+                {rowList.paddingBefore > 0 && <tr aria-hidden style={{ height: rowList.paddingBefore }} />}
                 {filteredTasks.length > 0 ? (
-                  filteredTasks.map((task) => (
-                    <TableRow key={task.id} className="hover:bg-slate-50 dark:hover:bg-slate-700">
-                      <TableCell className="font-medium text-slate-900 dark:text-slate-100">{task.title}</TableCell>
-                      <TableCell>{getStatusLabel(task.status)}</TableCell>
-                      <TableCell>{getPriorityLabel(task.priority)}</TableCell>
-                      <TableCell>
-                        {task.desiredDate && format(new Date(task.desiredDate), 'MMM d, yyyy')}
-                      </TableCell>
+                  rowList.items.map(({ index }) => filteredTasks[index]).map((task) => (
+                    <TableRow
+                      key={task.id}
+                      ref={rowList.measureRef}
+                      data-virtual-key={task.id}
+                      className="hover:bg-slate-50 dark:hover:bg-slate-700"
+                      data-state={selectedIds.includes(task.id) ? 'selected' : undefined}
+                    >
                       <TableCell>
-                        {task.actualDeliveryDate && format(new Date(task.actualDeliveryDate), 'MMM d, yyyy')}
+                        <Checkbox
+                          checked={selectedIds.includes(task.id)}
+                          onCheckedChange={checked => toggleSelected(task.id, checked === true)}
+                          aria-label={`Select ${task.title}`}
+                        />
                       </TableCell>
-                      <TableCell>{task.label}</TableCell>
+                      {columns.map(column => renderCell(column.id, task))}
                       <TableCell className="text-right">
                         <div className="flex justify-end space-x-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="View history"
+                            className="text-slate-500 dark:text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-slate-700"
+                            onClick={() => setHistoryTask(task)}
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="icon"
@@ -357,11 +420,12 @@ export function TasksPage() {
                   ))
                 ) : (
                   <TableRow>
-                    <TableCell colSpan={7} className="text-center py-6 text-slate-500 dark:text-slate-300">
+                    <TableCell colSpan={columns.length + 2} className="text-center py-6 text-slate-500 dark:text-slate-300">
                       No tasks match your filters
                     </TableCell>
                   </TableRow>
                 )}
+                {rowList.paddingAfter > 0 && <tr aria-hidden style={{ height: rowList.paddingAfter }} />}
               </TableBody>
             </Table>
           </div>
@@ -387,14 +451,26 @@ export function TasksPage() {
       </Dialog> 
       */}
 
+      <CsvImportDialog open={isCsvImportOpen} onOpenChange={setIsCsvImportOpen} />
+
+      {/* Task History Dialog */}
+      <Dialog open={historyTask !== null} onOpenChange={(open) => !open && setHistoryTask(null)}>
+        <DialogContent className="sm:max-w-[500px] max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>History: {historyTask?.title}</DialogTitle>
+          </DialogHeader>
+          {historyTask && <TaskActivityTimeline taskId={historyTask.id} />}
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
             <AlertDialogDescription>
-              This action cannot be undone. This will permanently delete the task
-              "{selectedTask?.title}" and remove it from the board.
+              This will delete the task "{selectedTask?.title}" and remove it from the board.
+              You can undo this with Ctrl+Z.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -2,6 +2,12 @@ export type Priority = 1 | 2 | 3;
 
 export type TaskStatus = string;
 
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+}
+
 export interface Task {
   id: string;
   title: string;
@@ -13,6 +19,8 @@ export interface Task {
   status: TaskStatus;
   assignee?: string; // Who is assigned to the task
   creator?: string; // Who created the task
+  checklist?: ChecklistItem[]; // Ordered sub-items
+  blockedBy?: string[]; // Ids of tasks that must be done before this one can start
   createdAt: string;
   updatedAt: string;
 }
@@ -21,8 +29,12 @@ export interface SwimLane {
   id: string;
   name: string;
   color: string;
+  wipLimit?: number; // Max tasks in the lane before it counts as overloaded (unset = no limit)
+  wipPolicy?: WipPolicy; // What happens on a move that would go over the limit
 }
 
+export type WipPolicy = 'warn' | 'block';
+
 export const DEFAULT_SWIMLANES: SwimLane[] = [
   { id: 'todo', name: 'To-do', color: 'blue' },
   { id: 'planning', name: 'Planning', color: 'purple' },
@@ -48,4 +60,71 @@ export interface TaskMap {
 
 export interface TasksByStatus {
   [status: string]: string[];
-}
\ No newline at end of file
+}
+
+export type TaskActivityType = 'created' | 'updated' | 'moved' | 'deleted';
+
+export interface TaskFieldChange {
+  field: string;
+  from: string | number | null;
+  to: string | number | null;
+}
+
+// One append-only entry in a task's audit trail
+export interface TaskActivity {
+  id: string;
+  taskId: string;
+  taskTitle: string; // Kept so entries stay readable after the task is deleted
+  type: TaskActivityType;
+  timestamp: string;
+  actor?: string; // Who made the change, if known
+  fromStatus?: TaskStatus;
+  toStatus?: TaskStatus;
+  changes?: TaskFieldChange[];
+  via?: 'undo' | 'redo'; // Set when the change came from the history stack
+}
+
+export interface ActivityLog {
+  [taskId: string]: TaskActivity[];
+}
+
+// A named board with its own swim lanes, tasks, activity and settings
+export interface Board {
+  id: string;
+  name: string;
+  archived?: boolean; // Hidden from the switcher until restored
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Board that existed before multiple boards were supported; keeps the original storage keys
+export const DEFAULT_BOARD_ID = 'default';
+
+// Board-wide preferences persisted alongside the tasks
+export interface BoardSettings {
+  // Lane a task moves to once every checklist item is checked (unset = don't move)
+  checklistDoneLaneId?: string;
+  // What happens when a task with open blockers is dragged into an in-progress lane
+  blockedTaskPolicy?: BlockedTaskPolicy;
+  // Named task queries listed in the sidebar
+  savedViews?: SavedView[];
+}
+
+export type SavedViewPage = 'board' | 'tasks';
+
+// A named query (see lib/query) and the page it opens on
+export interface SavedView {
+  id: string;
+  name: string;
+  query: string;
+  page: SavedViewPage;
+}
+
+export type BlockedTaskPolicy = 'warn' | 'block';
+
+// Everything that makes up the state of a board at one point in time
+export interface BoardSnapshot {
+  tasks: TaskMap;
+  tasksByStatus: TasksByStatus;
+  swimLanes: SwimLane[];
+}
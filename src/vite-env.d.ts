@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Storage backend for board data: 'localStorage' (default), 'indexedDB' or 'rest'
+  readonly VITE_TASK_REPOSITORY?: string;
+  // Base URL of the REST backend when VITE_TASK_REPOSITORY is 'rest' (see server/rest-server.js)
+  readonly VITE_TASK_API_URL?: string;
+  // WebSocket URL of the board sync server (see server/sync-server.js); multi-user sync is off when unset
+  readonly VITE_SYNC_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}